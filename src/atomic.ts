@@ -0,0 +1,50 @@
+import type { JsonApiAtomicDocument, JsonApiAtomicOperation } from './json-api'
+import type { Model, RelationshipName, ToManyRelationshipName } from './pinia-json-api'
+
+/**
+ * Operations queued to be sent as a single request using the Atomic Operations extension
+ *
+ * Records are only changed in the store once the request succeeds. New records are referred to by a local id (lid)
+ * until the server assigns an id, so that other operations in the same transaction can link to them.
+ */
+export interface AtomicTransaction {
+  /**
+   * Operations queued so far, in the order they will be sent
+   *
+   * Indices match the keys of JsonApiResponseError.operationErrors() if the request fails.
+   */
+  readonly operations: readonly JsonApiAtomicOperation[]
+  /**
+   * Queue an add operation for a new record
+   *
+   * If properties include an id it is sent as a client-generated id, otherwise a local id is used.
+   * @returns the new record, which gets its id and is cached on commit
+   */
+  create<T extends typeof Model>(ctor: T, properties: Partial<InstanceType<T>> & { id?: string }): InstanceType<T>
+  /**
+   * Queue an update operation with the changed attributes and relationships of a record
+   */
+  update(record: Model): void
+  /**
+   * Queue a remove operation for a record
+   */
+  remove(record: Model): void
+  /**
+   * Queue an update operation replacing the linkage of a relationship
+   */
+  setRelationship<T extends Model>(record: T, name: RelationshipName<T>, related: Model | Model[] | null): void
+  /**
+   * Queue an add operation for members of a to-many relationship
+   */
+  addToRelationship<T extends Model>(record: T, name: ToManyRelationshipName<T>, related: Model[]): void
+  /**
+   * Queue a remove operation for members of a to-many relationship
+   */
+  removeFromRelationship<T extends Model>(record: T, name: ToManyRelationshipName<T>, related: Model[]): void
+  /**
+   * Send all queued operations and reconcile records from the results
+   * @returns the atomic operations document from the server
+   * @throws JsonApiResponseError if the server rejects the operations, none of which are applied
+   */
+  commit(): Promise<JsonApiAtomicDocument>
+}
@@ -0,0 +1,113 @@
+import {
+  type MaybeRefOrGetter,
+  type Ref,
+  type ShallowRef,
+  computed,
+  onScopeDispose,
+  ref,
+  shallowRef,
+  toValue,
+  watch,
+} from 'vue'
+import type { FetchOptions, FetchParams } from './json-api-fetcher'
+import type { FindAllResult } from './pagination'
+import type { Model, PiniaJsonApiStore } from './pinia-json-api'
+
+export interface UseQueryResult<T> {
+  /**
+   * Result of the latest request
+   */
+  data: Readonly<Ref<T>>
+  /**
+   * Whether a request is in flight
+   */
+  isLoading: Readonly<Ref<boolean>>
+  /**
+   * Error of the latest request if it failed
+   */
+  error: Readonly<ShallowRef<unknown>>
+  /**
+   * Run the request again
+   */
+  refetch(): Promise<void>
+}
+
+export interface UseFindAllResult<T extends Model> extends UseQueryResult<T[]> {
+  /**
+   * The latest page result
+   */
+  page: Readonly<ShallowRef<FindAllResult<T> | undefined>>
+}
+
+/**
+ * Run a query when its reactive sources change, aborting stale requests
+ * @param query the query to run or undefined to skip
+ */
+function useQuery<R>(source: () => unknown, query: (signal: AbortSignal) => Promise<R> | undefined) {
+  const data = shallowRef<R>()
+  const isLoading = ref(false)
+  const error = shallowRef<unknown>()
+  let current = 0
+  let controller: AbortController | undefined
+  async function refetch() {
+    const request = ++current
+    controller?.abort()
+    controller = new AbortController()
+    const promise = query(controller.signal)
+    if (!promise) {
+      data.value = undefined
+      isLoading.value = false
+      return
+    }
+    isLoading.value = true
+    error.value = undefined
+    try {
+      const result = await promise
+      if (request === current) data.value = result
+    } catch (e) {
+      if (request === current) error.value = e
+    } finally {
+      if (request === current) isLoading.value = false
+    }
+  }
+  watch(source, refetch, { deep: true, immediate: true })
+  onScopeDispose(() => controller?.abort())
+  return { data, isLoading, error, refetch }
+}
+
+/**
+ * Reactively find all records of a given type, refetching when options or params change
+ */
+export function useFindAll<T extends typeof Model>(
+  store: PiniaJsonApiStore,
+  ctor: T,
+  options?: MaybeRefOrGetter<FetchOptions<InstanceType<T>> | undefined>,
+  params?: MaybeRefOrGetter<FetchParams | undefined>,
+): UseFindAllResult<InstanceType<T>> {
+  const { data: page, ...query } = useQuery(
+    () => [toValue(options), toValue(params)],
+    (signal) => store.findAll(ctor, { ...toValue(options), signal }, toValue(params)),
+  )
+  const data = computed(() => page.value?.records ?? [])
+  return { data, page, ...query }
+}
+
+/**
+ * Reactively find a single record by id, refetching when id, options or params change
+ * @param id the id of the record, no request is made while it is undefined
+ */
+export function useFindRecord<T extends typeof Model>(
+  store: PiniaJsonApiStore,
+  ctor: T,
+  id: MaybeRefOrGetter<string | undefined>,
+  options?: MaybeRefOrGetter<FetchOptions<InstanceType<T>> | undefined>,
+  params?: MaybeRefOrGetter<FetchParams | undefined>,
+): UseQueryResult<InstanceType<T> | undefined> {
+  return useQuery(
+    () => [toValue(id), toValue(options), toValue(params)],
+    (signal) => {
+      const value = toValue(id)
+      if (value !== undefined) return store.findRecord(ctor, value, { ...toValue(options), signal }, toValue(params))
+    },
+  )
+}
@@ -0,0 +1,111 @@
+import type { CachePolicy, Model } from './pinia-json-api'
+import type { Transform } from './transforms'
+import type { AttributeSchema } from './validation'
+
+type ModelClass = typeof Model
+
+/**
+ * Field declared with a decorator
+ * @internal
+ */
+export interface DecoratedField {
+  name: string
+  kind: 'attr' | 'belongsTo' | 'hasMany'
+  transform?: Transform
+  /**
+   * Get the related model or models, called when a store is defined so that models can refer to each other
+   */
+  target?: () => ModelClass | ModelClass[]
+}
+
+/**
+ * Model declared with decorators
+ * @internal
+ */
+export interface DecoratedModel {
+  type: string
+  fields: DecoratedField[]
+  cache?: CachePolicy
+  schema?: AttributeSchema
+}
+
+const decoratedModels = new WeakMap<ModelClass, DecoratedModel>()
+
+// NOTE: decorator metadata needs Symbol.metadata, which not all runtimes provide yet
+;(Symbol as { metadata?: symbol }).metadata ??= Symbol.for('Symbol.metadata')
+
+/**
+ * Key of the fields declared on a class in its decorator metadata
+ */
+const fieldsKey = Symbol('fields')
+
+function field(definition: Omit<DecoratedField, 'name'>) {
+  return (_value: undefined, context: ClassFieldDecoratorContext<Model, unknown>) => {
+    if (context.static || context.private)
+      throw new Error(`Field ${String(context.name)} must be a public instance field`)
+    const { metadata } = context
+    if (!metadata) throw new Error('Decorator metadata is not supported')
+    // NOTE: metadata of a class inherits from the metadata of its parent class, fields of each class are kept apart
+    const fields = ownFields(metadata)
+    if (fields.length === 0) metadata[fieldsKey] = fields
+    fields.push({ name: String(context.name), ...definition })
+  }
+}
+
+function ownFields(metadata: DecoratorMetadataObject) {
+  const declared = Object.prototype.hasOwnProperty.call(metadata, fieldsKey)
+  return declared ? (metadata[fieldsKey] as DecoratedField[]) : []
+}
+
+/**
+ * Collect the fields declared on a class and its parent classes, fields declared again replace inherited ones
+ */
+function collectFields(metadata: DecoratorMetadataObject | null | undefined): DecoratedField[] {
+  if (!metadata) return []
+  const own = ownFields(metadata)
+  const inherited = collectFields(Object.getPrototypeOf(metadata))
+  return [...inherited.filter((f) => !own.some((o) => o.name === f.name)), ...own]
+}
+
+/**
+ * Get the model declared with decorators on a class
+ * @internal
+ */
+export function getDecoratedModel(ctor: ModelClass) {
+  return decoratedModels.get(ctor)
+}
+
+/**
+ * Declare a model class with its JSON:API type, collecting the fields declared with decorators
+ *
+ * The class can then be given instead of a model definition in the store config.
+ */
+export function model(type: string, options: { cache?: CachePolicy; schema?: AttributeSchema } = {}) {
+  return <C extends ModelClass>(ctor: C, context: ClassDecoratorContext<C>) => {
+    const fields = collectFields(context.metadata)
+    decoratedModels.set(ctor, { type, fields, cache: options.cache, schema: options.schema })
+  }
+}
+
+/**
+ * Declare an attribute, optionally with a transform
+ */
+export function attr(transform?: Transform) {
+  return field({ kind: 'attr', transform })
+}
+
+/**
+ * Declare a to-one relationship
+ * @param target get the related model, an array of models if polymorphic, or omit to allow any model
+ */
+export function belongsTo(target?: () => ModelClass | ModelClass[]) {
+  return field({ kind: 'belongsTo', target })
+}
+
+/**
+ * Declare a to-many relationship
+ * @param target get the related model, an array of models if polymorphic, or omit to allow any model
+ */
+export function hasMany(target?: () => ModelClass | ModelClass[]) {
+  return field({ kind: 'hasMany', target })
+}
@@ -0,0 +1,37 @@
+import type { JsonApiDocument, JsonApiResource } from './json-api'
+
+/**
+ * Cached query result serialized for hydration
+ */
+export interface DehydratedQuery {
+  key: string
+  /**
+   * Time the result was fetched in milliseconds since the epoch
+   */
+  time: number
+  type: string
+  id?: string
+  ids: string[]
+  /**
+   * Document of a collection query, single record queries are restored from the records
+   */
+  doc?: JsonApiDocument
+}
+
+/**
+ * JSON serializable state of a store, e.g. to transfer records fetched during server-side rendering to the client
+ */
+export interface DehydratedState {
+  /**
+   * All cached records as resources with relationship linkage
+   */
+  data: JsonApiResource[]
+  /**
+   * Names of the fields loaded into records loaded with sparse fieldsets keyed by type and id
+   */
+  fields?: Record<string, Record<string, string[]>>
+  /**
+   * Cached query results
+   */
+  queries: DehydratedQuery[]
+}
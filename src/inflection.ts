@@ -0,0 +1,46 @@
+import { camel, kebab, snake } from './util'
+
+/**
+ * Conversion between member names used by the server and field names used by models
+ */
+export interface Inflection {
+  /**
+   * Convert a server name to a model field name
+   */
+  normalize(name: string): string
+  /**
+   * Convert a model field name to a server name
+   */
+  denormalize(name: string): string
+}
+
+/**
+ * Names are used as is
+ */
+export const identityInflection: Inflection = {
+  normalize: (name) => name,
+  denormalize: (name) => name,
+}
+
+/**
+ * Converts kebab-case server names (older JSON:API convention) to camelCase
+ */
+export const kebabInflection: Inflection = {
+  normalize: (name) => camel(name),
+  denormalize: kebab,
+}
+
+/**
+ * Converts snake_case server names to camelCase
+ */
+export const snakeInflection: Inflection = {
+  normalize: (name) => camel(name, '_'),
+  denormalize: snake,
+}
+
+/**
+ * Convert a dot separated path such as an include path or a filter or sort field
+ */
+export function inflectPath(path: string, inflect: (name: string) => string) {
+  return path.split('.').map(inflect).join('.')
+}
@@ -0,0 +1,91 @@
+import type { JsonApiDocument, JsonApiError } from './json-api'
+import { camel } from './util'
+
+/**
+ * Resolve a JSON Pointer from an error source to the attribute or relationship name it refers to
+ * @param normalize function to convert server names to model names
+ * @returns the name or undefined if the pointer does not refer to an attribute or relationship
+ */
+export function pointerToField(pointer: string, normalize: (name: string) => string = camel) {
+  const segments = pointer
+    .split('/')
+    .slice(1)
+    .map((s) => s.replace(/~1/g, '/').replace(/~0/g, '~'))
+  const index = segments.findIndex((s) => s === 'attributes' || s === 'relationships')
+  if (index === -1 || segments[index - 1] !== 'data') return
+  const name = segments[index + 1]
+  return name ? normalize(name) : undefined
+}
+
+/**
+ * Error thrown when a JSON:API request fails
+ */
+export class JsonApiResponseError extends Error {
+  /**
+   * Error objects from the response error document
+   */
+  readonly errors: JsonApiError[]
+
+  constructor(
+    /**
+     * HTTP status code of the response
+     */
+    readonly status: number,
+    /**
+     * The error document if the response contained one
+     */
+    readonly doc?: JsonApiDocument,
+  ) {
+    const errors = doc?.errors ?? []
+    const details = errors.map((e) => e.detail ?? e.title ?? e.code).filter((d) => d)
+    super(details.length > 0 ? details.join('; ') : `Request failed with status ${status}`)
+    this.name = 'JsonApiResponseError'
+    this.errors = errors
+  }
+
+  /**
+   * Create an error from a failed response, parsing the error document if there is one
+   */
+  static async fromResponse(response: Response) {
+    let doc: JsonApiDocument | undefined
+    try {
+      doc = (await response.json()) as JsonApiDocument
+    } catch {
+      // NOTE: response body is not JSON
+    }
+    return new JsonApiResponseError(response.status, doc)
+  }
+
+  /**
+   * Errors that refer to attributes or relationships via source.pointer
+   * @param normalize function to convert server names to model names
+   * @returns errors keyed by attribute or relationship name
+   */
+  fieldErrors(normalize?: (name: string) => string) {
+    const fields: Record<string, JsonApiError[]> = {}
+    for (const error of this.errors) {
+      if (!error.source?.pointer) continue
+      const field = pointerToField(error.source.pointer, normalize)
+      if (!field) continue
+      if (!fields[field]) fields[field] = []
+      fields[field].push(error)
+    }
+    return fields
+  }
+
+  /**
+   * Errors that refer to operations of an atomic operations request via source.pointer
+   * @returns errors keyed by operation index
+   */
+  operationErrors() {
+    const operations: Record<number, JsonApiError[]> = {}
+    for (const error of this.errors) {
+      const match = error.source?.pointer?.match(/^\/atomic:operations\/(\d+)/)
+      if (!match) continue
+      const index = Number(match[1])
+      if (!operations[index]) operations[index] = []
+      operations[index].push(error)
+    }
+    return operations
+  }
+}
@@ -1,6 +1,19 @@
-import ky, { type Options } from 'ky'
+import ky, { HTTPError, type Options, type RetryOptions } from 'ky'
 import type { ComputedRef } from 'vue'
-import type { JsonApiDocument, JsonApiResource } from './json-api'
+import type {
+  JsonApiAtomicDocument,
+  JsonApiAtomicOperation,
+  JsonApiDocument,
+  JsonApiNewResource,
+  JsonApiRelationship,
+  JsonApiResource,
+  JsonApiResourceIdentifier,
+} from './json-api'
+import { JsonApiResponseError } from './json-api-error'
+import { type Middleware, type Next, composeMiddleware } from './middleware'
+import { type Filter, type FilterStrategy, type SortOption, dotFilterStrategy, serializeSort } from './query'
+
+const ATOMIC_MEDIA_TYPE = 'application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"'
 
 function resolvePath(...segments: string[]): string {
   return new URL(segments.join('/')).href
@@ -9,13 +22,49 @@ function resolvePath(...segments: string[]): string {
 export interface PageOption {
   size?: number
   number?: number
+  offset?: number
+  limit?: number
+  /**
+   * Opaque cursor for cursor based pagination
+   */
+  cursor?: string
+  /**
+   * Cursor to get the page after for cursor based pagination
+   */
+  after?: string
+  /**
+   * Cursor to get the page before for cursor based pagination
+   */
+  before?: string
+}
+
+/**
+ * Options for a single request
+ */
+export interface RequestOptions {
+  /**
+   * Signal to abort the request
+   */
+  signal?: AbortSignal
+  /**
+   * Timeout in milliseconds or false for no timeout, overrides the fetcher default
+   */
+  timeout?: number | false
+  /**
+   * Retry policy as number of retries or retry options with backoff, overrides the fetcher default
+   */
+  retry?: RetryOptions | number
 }
 
-export interface FetchOptions {
+export interface FetchOptions<M = Record<string, unknown>> extends RequestOptions {
   fields?: Record<string, string[]>
   page?: PageOption
   include?: string[]
-  filter?: string
+  /**
+   * Filter as a raw value for the filter parameter or as a structured filter serialized by the filter strategy
+   */
+  filter?: string | Filter<M>
+  sort?: SortOption<M>[]
 }
 
 export interface FetchParams {
@@ -26,6 +75,12 @@ export interface JsonApiFetcher {
   fetchDocument(type: string, id?: string, options?: FetchOptions, params?: FetchParams): Promise<JsonApiDocument>
   fetchOne(type: string, id: string, options?: FetchOptions, params?: FetchParams): Promise<JsonApiResource>
   fetchAll(type: string, options?: FetchOptions, params?: FetchParams): Promise<JsonApiResource[]>
+  /**
+   * Fetch a document from a server provided link such as a pagination or related link
+   *
+   * Links relative to the endpoint are resolved against it. Query options are added to the query of the link.
+   */
+  fetchLink(url: string, options?: FetchOptions, params?: FetchParams): Promise<JsonApiDocument>
   fetchHasMany(
     type: string,
     id: string,
@@ -40,68 +95,185 @@ export interface JsonApiFetcher {
     options?: FetchOptions,
     params?: FetchParams,
   ): Promise<JsonApiDocument>
-  post(data: JsonApiResource): Promise<JsonApiDocument>
+  post(data: JsonApiNewResource): Promise<JsonApiDocument>
+  patch(data: JsonApiResource): Promise<JsonApiDocument>
+  delete(type: string, id: string): Promise<void>
+  /**
+   * Replace relationship linkage
+   */
+  patchRelationship(type: string, id: string, name: string, data: JsonApiRelationship['data']): Promise<void>
+  /**
+   * Add members to a to-many relationship
+   */
+  postRelationship(type: string, id: string, name: string, data: JsonApiResourceIdentifier[]): Promise<void>
+  /**
+   * Remove members from a to-many relationship
+   */
+  deleteRelationship(type: string, id: string, name: string, data: JsonApiResourceIdentifier[]): Promise<void>
+  /**
+   * Send operations as a single request using the Atomic Operations extension
+   */
+  atomic(operations: JsonApiAtomicOperation[]): Promise<JsonApiAtomicDocument>
+}
+
+export interface JsonApiFetcherOptions {
+  /**
+   * Strategy to serialize structured filters, defaults to dotFilterStrategy
+   */
+  filterStrategy?: FilterStrategy
+  /**
+   * Default timeout in milliseconds or false for no timeout
+   */
+  timeout?: number | false
+  /**
+   * Default retry policy as number of retries or retry options with backoff
+   */
+  retry?: RetryOptions | number
+  /**
+   * Middleware around requests, the first being the outermost
+   */
+  middleware?: Middleware[]
+  /**
+   * Path relative to the endpoint for atomic operations requests, defaults to operations
+   */
+  atomicPath?: string
 }
 
 export class JsonApiFetcherImpl implements JsonApiFetcher {
+  private fetch?: Next
   constructor(
     private endpoint: string,
     private state?: ComputedRef<{ token: string }>,
-  ) {}
+    private fetcherOptions: JsonApiFetcherOptions = {},
+  ) {
+    const middleware = fetcherOptions.middleware ?? []
+    // NOTE: resolve global fetch at request time
+    if (middleware.length > 0) this.fetch = composeMiddleware(middleware, (request) => globalThis.fetch(request))
+  }
   createOptions(options: FetchOptions = {}, params: FetchParams = {}, post = false): Options {
     const searchParams = new URLSearchParams()
     const headers = new Headers()
     headers.append('Accept', 'application/vnd.api+json')
-    if (post)
-      headers.append("Content-Type", "application/vnd.api+json");
-    if (this.state) headers.append('Authorization', `Bearer ${this.state.value.token}`)
-    const requestOptions = { searchParams, headers }
+    if (post) headers.append('Content-Type', 'application/vnd.api+json')
+    if (this.state?.value.token) headers.append('Authorization', `Bearer ${this.state.value.token}`)
+    const requestOptions: Options = { headers }
+    const timeout = options.timeout ?? this.fetcherOptions.timeout
+    const retry = options.retry ?? this.fetcherOptions.retry
+    if (timeout !== undefined) requestOptions.timeout = timeout
+    if (retry !== undefined) requestOptions.retry = retry
+    if (options.signal) requestOptions.signal = options.signal
+    const fetch = this.fetch
+    if (fetch) requestOptions.fetch = (input, init) => fetch(new Request(input, init))
     if (options.fields)
       for (const [key, value] of Object.entries(options.fields)) searchParams.append(`fields[${key}]`, value.join(','))
-    if (options.page?.size) searchParams.append('page[size]', options.page.size.toString())
-    if (options.page?.number) searchParams.append('page[number]', options.page.number.toString())
+    if (options.page)
+      for (const [key, value] of Object.entries(options.page))
+        if (value !== undefined) searchParams.append(`page[${key}]`, value.toString())
     if (options.include) searchParams.append('include', options.include.join(','))
-    if (options.filter) searchParams.append('filter', options.filter)
+    if (typeof options.filter === 'string') searchParams.append('filter', options.filter)
+    else if (options.filter) {
+      const filterStrategy = this.fetcherOptions.filterStrategy ?? dotFilterStrategy
+      for (const [key, value] of filterStrategy(options.filter)) searchParams.append(key, value)
+    }
+    if (options.sort?.length) searchParams.append('sort', serializeSort(options.sort))
     for (const [key, value] of Object.entries(params)) searchParams.append(key, value)
+    // NOTE: avoid a trailing ? on urls without parameters
+    if (searchParams.size > 0) requestOptions.searchParams = searchParams
     return requestOptions
   }
+  /**
+   * Send a request and parse the response as a JSON:API document
+   * @throws JsonApiResponseError if the server responds with an error status
+   */
+  async request(method: string, url: string, options: Options): Promise<JsonApiDocument> {
+    try {
+      const doc = await ky(url, { ...options, method }).json<JsonApiDocument>()
+      // NOTE: 204 No Content results in an empty body
+      return doc || {}
+    } catch (error) {
+      if (error instanceof HTTPError) throw await JsonApiResponseError.fromResponse(error.response)
+      throw error
+    }
+  }
   async fetchDocument(type: string, id?: string, options?: FetchOptions, params?: FetchParams) {
     const segments = [this.endpoint, type]
     if (id) segments.push(id)
     const url = resolvePath(...segments)
-    const doc = await ky.get(url, this.createOptions(options, params)).json<JsonApiDocument>()
+    const doc = await this.request('get', url, this.createOptions(options, params))
     return doc
   }
   async fetchAll(type: string, options?: FetchOptions, params?: FetchParams) {
     const url = resolvePath(this.endpoint, type)
-    const doc = await ky.get(url, this.createOptions(options, params)).json<JsonApiDocument>()
+    const doc = await this.request('get', url, this.createOptions(options, params))
     const resources = doc.data as JsonApiResource[]
     return resources
   }
   async fetchOne(type: string, id: string, options?: FetchOptions, params?: FetchParams) {
     const url = resolvePath(this.endpoint, type, id)
-    const doc = await ky.get(url, this.createOptions(options, params)).json<JsonApiDocument>()
+    const doc = await this.request('get', url, this.createOptions(options, params))
     const resource = doc.data as JsonApiResource
     return resource
   }
+  async fetchLink(url: string, options?: FetchOptions, params?: FetchParams) {
+    const { searchParams, ...requestOptions } = this.createOptions(options, params)
+    // NOTE: links may be relative to the endpoint, e.g. /api/articles?page[number]=2
+    const target = new URL(url, this.endpoint)
+    // NOTE: ky replaces the query of the url with searchParams, so they are appended to the url instead
+    if (searchParams) for (const [key, value] of searchParams as URLSearchParams) target.searchParams.append(key, value)
+    return this.request('get', target.href, requestOptions)
+  }
   async fetchHasMany(type: string, id: string, name: string, options?: FetchOptions, params?: FetchParams) {
     const url = resolvePath(this.endpoint, type, id, name)
-    const doc = await ky.get(url, this.createOptions(options, params)).json<JsonApiDocument>()
+    const doc = await this.request('get', url, this.createOptions(options, params))
     return doc
   }
   async fetchBelongsTo(type: string, id: string, name: string, options?: FetchOptions, params?: FetchParams) {
     const url = resolvePath(this.endpoint, type, id, name)
-    const doc = await ky.get(url, this.createOptions(options, params)).json<JsonApiDocument>()
+    const doc = await this.request('get', url, this.createOptions(options, params))
     return doc
   }
-  async post(resource: JsonApiResource) {
+  async post(resource: JsonApiNewResource) {
     const url = resolvePath(this.endpoint, resource.type)
     const requestOptions = this.createOptions({}, {}, true)
-    const body: JsonApiDocument = {
-      data: resource,
-    }
+    requestOptions.json = { data: resource }
+    return this.request('post', url, requestOptions)
+  }
+  async patch(resource: JsonApiResource) {
+    const url = resolvePath(this.endpoint, resource.type, resource.id)
+    const requestOptions = this.createOptions({}, {}, true)
+    requestOptions.json = { data: resource }
+    return this.request('patch', url, requestOptions)
+  }
+  async delete(type: string, id: string) {
+    const url = resolvePath(this.endpoint, type, id)
+    await this.request('delete', url, this.createOptions())
+  }
+  async patchRelationship(type: string, id: string, name: string, data: JsonApiRelationship['data']) {
+    const url = resolvePath(this.endpoint, type, id, 'relationships', name)
+    const requestOptions = this.createOptions({}, {}, true)
+    requestOptions.json = { data }
+    await this.request('patch', url, requestOptions)
+  }
+  async postRelationship(type: string, id: string, name: string, data: JsonApiResourceIdentifier[]) {
+    const url = resolvePath(this.endpoint, type, id, 'relationships', name)
+    const requestOptions = this.createOptions({}, {}, true)
+    requestOptions.json = { data }
+    await this.request('post', url, requestOptions)
+  }
+  async deleteRelationship(type: string, id: string, name: string, data: JsonApiResourceIdentifier[]) {
+    const url = resolvePath(this.endpoint, type, id, 'relationships', name)
+    const requestOptions = this.createOptions({}, {}, true)
+    requestOptions.json = { data }
+    await this.request('delete', url, requestOptions)
+  }
+  async atomic(operations: JsonApiAtomicOperation[]) {
+    const url = resolvePath(this.endpoint, this.fetcherOptions.atomicPath ?? 'operations')
+    const requestOptions = this.createOptions()
+    const headers = requestOptions.headers as Headers
+    headers.set('Accept', ATOMIC_MEDIA_TYPE)
+    headers.set('Content-Type', ATOMIC_MEDIA_TYPE)
+    const body: JsonApiAtomicDocument = { 'atomic:operations': operations }
     requestOptions.json = body
-    const doc = await ky.post(url, requestOptions).json<JsonApiDocument>()
-    return doc
+    return (await this.request('post', url, requestOptions)) as JsonApiAtomicDocument
   }
 }
@@ -1,10 +1,19 @@
 export interface JsonApiResourceIdentifier {
   id: string
   type: string
+  /**
+   * Local id identifying a resource created in the same request, e.g. in atomic operations
+   */
+  lid?: string
 }
 
 export interface JsonApiRelationship {
-  data: null | [] | JsonApiResourceIdentifier | JsonApiResourceIdentifier[]
+  /**
+   * Resource linkage, absent if the server only provides links or meta
+   */
+  data?: null | [] | JsonApiResourceIdentifier | JsonApiResourceIdentifier[]
+  links?: JsonApiLinks
+  meta?: JsonApiMeta
 }
 
 export interface JsonApiResource {
@@ -14,6 +23,11 @@ export interface JsonApiResource {
   relationships?: Record<string, JsonApiRelationship>
 }
 
+/**
+ * Resource object to be created, the id is optional as it may be assigned by the server
+ */
+export type JsonApiNewResource = Omit<JsonApiResource, 'id'> & { id?: string; lid?: string }
+
 export interface JsonApiMeta {
   // Pagination
   totalPages?: number
@@ -54,17 +68,70 @@ export interface JsonApiLinks {
 
 export interface JsonApiDocument {
   links?: JsonApiLinks
-  data?: JsonApiResource | JsonApiResource[]
+  data?: JsonApiResource | JsonApiResource[] | null
   errors?: JsonApiError[]
   included?: JsonApiResource[]
   meta?: JsonApiMeta
 }
 
+export interface JsonApiErrorSource {
+  /**
+   * JSON Pointer to the value in the request document that caused the error
+   */
+  pointer?: string
+  /**
+   * Name of the query parameter that caused the error
+   */
+  parameter?: string
+  /**
+   * Name of the request header that caused the error
+   */
+  header?: string
+}
+
 export interface JsonApiError {
-  id: string
-  status: string
+  id?: string
+  links?: JsonApiLinks
+  status?: string
   code?: string
-  title: string
+  title?: string
   detail?: string
+  source?: JsonApiErrorSource
+  meta?: JsonApiMeta
+}
+
+/**
+ * Reference to a resource or relationship that is the target of an atomic operation
+ */
+export interface JsonApiAtomicRef {
+  type: string
+  id?: string
+  lid?: string
+  relationship?: string
+}
+
+/**
+ * Operation in an atomic operations request
+ */
+export interface JsonApiAtomicOperation {
+  op: 'add' | 'update' | 'remove'
+  ref?: JsonApiAtomicRef
+  href?: string
+  data?: JsonApiNewResource | JsonApiRelationship['data']
+  meta?: JsonApiMeta
+}
+
+export interface JsonApiAtomicResult {
+  data?: JsonApiResource | null
+  meta?: JsonApiMeta
+}
+
+/**
+ * Document for the Atomic Operations extension
+ */
+export interface JsonApiAtomicDocument {
+  'atomic:operations'?: JsonApiAtomicOperation[]
+  'atomic:results'?: JsonApiAtomicResult[]
+  errors?: JsonApiError[]
   meta?: JsonApiMeta
 }
@@ -1,26 +1,87 @@
 export { definePiniaJsonApiStore, Model, RelationshipType } from './pinia-json-api'
 export type {
+  CachePolicy,
   PiniaJsonApiStore,
   PiniaJsonApiStoreUseFunction,
   PiniaJsonApiStoreConfig,
   ModelDefinition,
   Relationship,
+  RelationshipModel,
+  RelationshipName,
+  ToManyRelationshipName,
+  WriteOptions,
 } from './pinia-json-api'
 export type {
   JsonApiFetcher,
+  JsonApiFetcherOptions,
   FetchOptions,
   FetchParams,
   PageOption,
+  RequestOptions,
 } from './json-api-fetcher'
 export type {
   JsonApiDocument,
   JsonApiError,
+  JsonApiErrorSource,
   JsonApiResource,
+  JsonApiNewResource,
   JsonApiResourceIdentifier,
   JsonApiRelationship,
   JsonApiLinks,
   JsonApiLink,
   JsonApiLinkObject,
   JsonApiMeta,
+  JsonApiAtomicDocument,
+  JsonApiAtomicOperation,
+  JsonApiAtomicRef,
+  JsonApiAtomicResult,
 } from './json-api'
-export { camel } from './util'
+export type { AtomicTransaction } from './atomic'
+export { attr, belongsTo, hasMany, model } from './decorators'
+export type { DehydratedQuery, DehydratedState } from './hydration'
+export { connectStream } from './realtime'
+export type { ChangeEvent, ChangeListener, DeleteNotice, MessageStream, PushMessage, StreamOptions } from './realtime'
+export { MockJsonApiFetcher } from './mock-fetcher'
+export type { MockJsonApiFetcherOptions } from './mock-fetcher'
+export { indexedDbAdapter, isNetworkError, memoryAdapter } from './persistence'
+export type { PendingWrite, PersistedState, PersistenceAdapter, SyncConflict, SyncResult } from './persistence'
+export { useFindAll, useFindRecord } from './composables'
+export type { UseFindAllResult, UseQueryResult } from './composables'
+export {
+  apiKeyMiddleware,
+  bearerAuthMiddleware,
+  composeMiddleware,
+  credentialsMiddleware,
+  headersMiddleware,
+  loggerMiddleware,
+  refreshAuthMiddleware,
+  responseMiddleware,
+} from './middleware'
+export type { Middleware, Next } from './middleware'
+export { linkHref } from './pagination'
+export type { FindAllResult } from './pagination'
+export { JsonApiResponseError, pointerToField } from './json-api-error'
+export { JsonApiValidationError, validateDocument } from './validation'
+export type {
+  AttributeCheck,
+  AttributeSchema,
+  AttributeType,
+  ResourceSchema,
+  ValidationIssue,
+  ValidationOptions,
+} from './validation'
+export { dotFilterStrategy, bracketFilterStrategy, serializeSort } from './query'
+export type {
+  Filter,
+  FilterPrimitive,
+  FilterStrategy,
+  FilterValue,
+  ModelField,
+  SortDirection,
+  SortOption,
+} from './query'
+export { booleanTransform, dateTransform, enumTransform, jsonTransform, numberTransform } from './transforms'
+export type { Transform } from './transforms'
+export { camel, kebab, snake } from './util'
+export { identityInflection, inflectPath, kebabInflection, snakeInflection } from './inflection'
+export type { Inflection } from './inflection'
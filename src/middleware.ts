@@ -0,0 +1,103 @@
+/**
+ * Send a request to the next middleware or finally to fetch
+ */
+export type Next = (request: Request) => Promise<Response>
+
+/**
+ * Middleware around requests made by the fetcher, may modify or replace the request and inspect or replace the response
+ */
+export type Middleware = (request: Request, next: Next) => Promise<Response>
+
+/**
+ * Compose middleware into a single function, the first middleware being the outermost
+ */
+export function composeMiddleware(middleware: Middleware[], fetch: Next): Next {
+  return middleware.reduceRight<Next>((next, m) => (request) => m(request, next), fetch)
+}
+
+/**
+ * Set headers on requests
+ * @param headers headers or a function returning headers, e.g. to read from current state
+ */
+export function headersMiddleware(headers: HeadersInit | (() => HeadersInit | Promise<HeadersInit>)): Middleware {
+  return async (request, next) => {
+    const values = new Headers(typeof headers === 'function' ? await headers() : headers)
+    for (const [key, value] of values) request.headers.set(key, value)
+    return next(request)
+  }
+}
+
+/**
+ * Set a Bearer Authorization header on requests, no header is set if there is no token
+ * @param getToken function returning the current token
+ */
+export function bearerAuthMiddleware(
+  getToken: () => string | null | undefined | Promise<string | null | undefined>,
+): Middleware {
+  return async (request, next) => {
+    const token = await getToken()
+    if (token) request.headers.set('Authorization', `Bearer ${token}`)
+    return next(request)
+  }
+}
+
+/**
+ * Set an API key header on requests
+ */
+export function apiKeyMiddleware(name: string, key: string | (() => string)): Middleware {
+  return headersMiddleware(() => ({ [name]: typeof key === 'function' ? key() : key }))
+}
+
+/**
+ * Set the credentials mode of requests, e.g. to send cookies with cross-origin requests
+ */
+export function credentialsMiddleware(credentials: RequestCredentials = 'include'): Middleware {
+  return (request, next) => next(new Request(request, { credentials }))
+}
+
+/**
+ * Refresh authentication and retry once when a request is rejected with 401 Unauthorized
+ *
+ * Must be placed before the middleware that sets authentication so that the retry uses the refreshed credentials.
+ * @param refresh function to refresh authentication, e.g. to fetch a new token
+ */
+export function refreshAuthMiddleware(refresh: () => Promise<void>): Middleware {
+  return async (request, next) => {
+    // NOTE: clone before sending as the body can only be read once
+    const retry = request.clone()
+    const response = await next(request)
+    if (response.status !== 401) return response
+    await refresh()
+    return next(retry)
+  }
+}
+
+/**
+ * Log requests and responses
+ */
+export function loggerMiddleware(log: (message: string) => void = console.debug): Middleware {
+  return async (request, next) => {
+    const start = Date.now()
+    try {
+      const response = await next(request)
+      log(`${request.method} ${request.url} ${response.status} ${Date.now() - start}ms`)
+      return response
+    } catch (error) {
+      log(`${request.method} ${request.url} failed ${Date.now() - start}ms`)
+      throw error
+    }
+  }
+}
+
+/**
+ * Inspect responses, e.g. to read headers or meta, without modifying them
+ */
+export function responseMiddleware(
+  inspect: (response: Response, request: Request) => void | Promise<void>,
+): Middleware {
+  return async (request, next) => {
+    const response = await next(request)
+    await inspect(response.clone(), request)
+    return response
+  }
+}
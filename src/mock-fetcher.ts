@@ -0,0 +1,511 @@
+import type {
+  JsonApiAtomicDocument,
+  JsonApiAtomicOperation,
+  JsonApiAtomicResult,
+  JsonApiDocument,
+  JsonApiError,
+  JsonApiErrorSource,
+  JsonApiLinks,
+  JsonApiNewResource,
+  JsonApiRelationship,
+  JsonApiResource,
+  JsonApiResourceIdentifier,
+} from './json-api'
+import { JsonApiResponseError } from './json-api-error'
+import {
+  type FetchOptions,
+  type FetchParams,
+  type JsonApiFetcher,
+  JsonApiFetcherImpl,
+  type PageOption,
+  type RequestOptions,
+} from './json-api-fetcher'
+import { type Model, type ModelDefinition, RelationshipType, toModelDefinition } from './pinia-json-api'
+import type { Filter, FilterValue, SortOption } from './query'
+import { clone } from './util'
+
+export interface MockJsonApiFetcherOptions {
+  /**
+   * Endpoint used to create and resolve links, defaults to http://localhost/api
+   */
+  endpoint?: string
+  /**
+   * Page size when a page is requested without a size, by default all resources are returned unless paged
+   */
+  defaultPageSize?: number
+}
+
+const operators = ['eq', 'ne', 'lt', 'lte', 'gt', 'gte']
+
+function failure(status: number, detail: string, source?: JsonApiErrorSource) {
+  const error: JsonApiError = { status: String(status), detail }
+  if (source) error.source = source
+  return new JsonApiResponseError(status, { errors: [error] })
+}
+
+function identityKey(rid: JsonApiResourceIdentifier) {
+  return `${rid.type}:${rid.id}`
+}
+
+function toLinkage(data?: JsonApiRelationship['data']) {
+  return ([] as (JsonApiResourceIdentifier | null)[]).concat(data ?? []).filter((rid) => !!rid)
+}
+
+function compare(a: unknown, b: unknown) {
+  if (a === b) return 0
+  if (a === null || a === undefined) return -1
+  if (b === null || b === undefined) return 1
+  const [x, y] = [Number(a), Number(b)]
+  if (typeof a !== 'boolean' && !Number.isNaN(x) && !Number.isNaN(y)) return x - y
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0
+}
+
+function matchesValue(actual: unknown, expected: FilterValue, operator = 'eq'): boolean {
+  if (Array.isArray(expected)) return expected.some((e) => matchesValue(actual, e, operator))
+  if (expected === null) return operator === 'ne' ? actual !== null && actual !== undefined : actual == null
+  const order = compare(actual, expected)
+  if (operator === 'ne') return order !== 0
+  if (operator === 'lt') return order < 0
+  if (operator === 'lte') return order <= 0
+  if (operator === 'gt') return order > 0
+  if (operator === 'gte') return order >= 0
+  // NOTE: values from query strings are strings, so equality is compared as strings
+  return String(actual) === String(expected)
+}
+
+/**
+ * In-memory JSON:API server implementing JsonApiFetcher, e.g. for tests and prototyping
+ *
+ * Supports include, sparse fieldsets, filters (equality, lists and the operators eq, ne, lt, lte, gt and gte, also
+ * through relationships), sort, page based and offset based pagination, writes including relationship endpoints and
+ * atomic operations. Failures are thrown as JsonApiResponseError with error documents like a server would respond.
+ */
+export class MockJsonApiFetcher implements JsonApiFetcher {
+  /**
+   * Resources keyed by type and id
+   */
+  readonly resources = new Map<string, Map<string, JsonApiResource>>()
+  private rels = new Map<string, Record<string, RelationshipType>>()
+  private nextId = 1
+  private endpoint: string
+  private linkFetcher: JsonApiFetcherImpl
+
+  /**
+   * @param modelDefinitions models that define the types and relationships served
+   * @param data initial resources, or a document whose data and included resources are loaded
+   */
+  constructor(
+    modelDefinitions: (ModelDefinition | typeof Model)[],
+    data: JsonApiResource[] | JsonApiDocument = [],
+    private options: MockJsonApiFetcherOptions = {},
+  ) {
+    this.endpoint = options.endpoint ?? 'http://localhost/api'
+    this.linkFetcher = new JsonApiFetcherImpl(this.endpoint)
+    for (const { type, rels = {} } of modelDefinitions.map(toModelDefinition)) {
+      this.resources.set(type, new Map())
+      this.rels.set(type, Object.fromEntries(Object.entries(rels).map(([name, rel]) => [name, rel.type])))
+    }
+    this.seed(data)
+  }
+
+  /**
+   * Add or replace resources
+   */
+  seed(data: JsonApiResource[] | JsonApiDocument) {
+    const resources = Array.isArray(data) ? data : [...toResources(data.data), ...(data.included ?? [])]
+    for (const resource of resources) this.getResources(resource.type).set(resource.id, clone(resource))
+  }
+
+  private getResources(type: string) {
+    const resources = this.resources.get(type)
+    if (!resources) throw failure(404, `Type ${type} not found`)
+    return resources
+  }
+
+  private find(type: string, id: string) {
+    const resource = this.getResources(type).get(id)
+    if (!resource) throw failure(404, `Resource ${type} ${id} not found`)
+    return resource
+  }
+
+  private getRelationshipType(type: string, name: string) {
+    const relType = this.rels.get(type)?.[name]
+    if (relType === undefined) throw failure(404, `Relationship ${name} of type ${type} not found`)
+    return relType
+  }
+
+  /**
+   * Resources referred to by a relationship, ignoring linkage to resources that do not exist
+   */
+  private related(resource: JsonApiResource, name: string) {
+    const rids = toLinkage(resource.relationships?.[name]?.data)
+    return rids.map((rid) => this.resources.get(rid.type)?.get(rid.id)).filter((r) => !!r)
+  }
+
+  private matches(resource: JsonApiResource, filter: Filter): boolean {
+    return Object.entries(filter).every(
+      ([key, value]) => value === undefined || this.matchesPath(resource, key.split('.'), value),
+    )
+  }
+
+  private matchesPath(resource: JsonApiResource, path: string[], value: FilterValue): boolean {
+    const [name, ...rest] = path
+    const nested = value !== null && typeof value === 'object' && !Array.isArray(value)
+    if (this.rels.get(resource.type)?.[name] !== undefined)
+      return this.related(resource, name).some((related) => {
+        if (rest.length > 0) return this.matchesPath(related, rest, value)
+        return nested ? this.matches(related, value as Filter) : matchesValue(related.id, value)
+      })
+    let actual: unknown = name === 'id' ? resource.id : resource.attributes?.[name]
+    for (const [i, segment] of rest.entries()) {
+      if (i === rest.length - 1 && operators.includes(segment)) return matchesValue(actual, value, segment)
+      actual = (actual as Record<string, unknown> | undefined)?.[segment]
+    }
+    if (!nested) return matchesValue(actual, value)
+    return Object.entries(value).every(([key, v]) => {
+      if (v === undefined) return true
+      if (operators.includes(key)) return matchesValue(actual, v, key)
+      return matchesValue((actual as Record<string, unknown> | undefined)?.[key], v)
+    })
+  }
+
+  private sortValue(resource: JsonApiResource | undefined, path: string[]): unknown {
+    if (!resource) return undefined
+    const [name, ...rest] = path
+    if (rest.length > 0) return this.sortValue(this.related(resource, name)[0], rest)
+    return name === 'id' ? resource.id : resource.attributes?.[name]
+  }
+
+  private sort(resources: JsonApiResource[], sort: SortOption[]) {
+    const keys = sort.map((s) => {
+      if (typeof s !== 'string') return { path: s.field.split('.'), desc: s.direction === 'desc' }
+      const desc = s.startsWith('-')
+      return { path: (desc ? s.slice(1) : s).split('.'), desc }
+    })
+    return [...resources].sort((a, b) => {
+      for (const { path, desc } of keys) {
+        const order = compare(this.sortValue(a, path), this.sortValue(b, path))
+        if (order !== 0) return desc ? -order : order
+      }
+      return 0
+    })
+  }
+
+  private included(primary: JsonApiResource[], include: string[] = []) {
+    const seen = new Set(primary.map(identityKey))
+    const included: JsonApiResource[] = []
+    for (const path of include) {
+      let resources = primary
+      for (const name of path.split('.')) {
+        const next: JsonApiResource[] = []
+        for (const resource of resources) {
+          if (this.rels.get(resource.type)?.[name] === undefined)
+            throw failure(400, `Relationship ${name} of type ${resource.type} cannot be included`, {
+              parameter: 'include',
+            })
+          next.push(...this.related(resource, name))
+        }
+        for (const resource of next) {
+          if (seen.has(identityKey(resource))) continue
+          seen.add(identityKey(resource))
+          included.push(resource)
+        }
+        resources = next
+      }
+    }
+    return included
+  }
+
+  /**
+   * Copy a resource with only the fields requested by a sparse fieldset
+   */
+  private present(resource: JsonApiResource, fields?: Record<string, string[]>) {
+    const copy = clone(resource)
+    const { type, id } = resource
+    const relNames = Object.keys(this.rels.get(type) ?? {})
+    if (relNames.length > 0)
+      copy.relationships = {
+        ...copy.relationships,
+        ...Object.fromEntries(
+          relNames.map((name) => [
+            name,
+            {
+              ...copy.relationships?.[name],
+              links: {
+                self: this.link([type, id, 'relationships', name], {}),
+                related: this.link([type, id, name], {}),
+              },
+            },
+          ]),
+        ),
+      }
+    const names = fields?.[resource.type]
+    if (!names) return copy
+    const pick = <T>(members?: Record<string, T>) =>
+      members && Object.fromEntries(Object.entries(members).filter(([name]) => names.includes(name)))
+    copy.attributes = pick(copy.attributes) ?? {}
+    if (copy.relationships) copy.relationships = pick(copy.relationships)
+    return copy
+  }
+
+  private link(path: string[], options: FetchOptions, params?: FetchParams) {
+    const { searchParams } = this.linkFetcher.createOptions(options, params)
+    const query = searchParams ? `?${searchParams}` : ''
+    return `${[this.endpoint, ...path].join('/')}${query}`
+  }
+
+  /**
+   * Create a document for primary data with included resources, pagination links and meta
+   */
+  private document(
+    path: string[],
+    data: JsonApiResource | JsonApiResource[] | null,
+    options: FetchOptions = {},
+    params?: FetchParams,
+  ): JsonApiDocument {
+    if (options.signal?.aborted) throw options.signal.reason
+    if (typeof options.filter === 'string')
+      throw failure(400, 'Filter strings are not supported', { parameter: 'filter' })
+    if (!Array.isArray(data)) {
+      const primary = data ? [data] : []
+      const doc: JsonApiDocument = {
+        data: data && this.present(data, options.fields),
+        links: { self: this.link(path, options, params) },
+      }
+      if (options.include)
+        doc.included = this.included(primary, options.include).map((r) => this.present(r, options.fields))
+      return doc
+    }
+    let resources = data
+    if (options.filter) resources = resources.filter((r) => this.matches(r, options.filter as Filter))
+    if (options.sort) resources = this.sort(resources, options.sort as SortOption[])
+    const total = resources.length
+    const { page, links, meta } = this.paginate(total, path, options, params)
+    if (page) resources = resources.slice(page.start, page.end)
+    const doc: JsonApiDocument = { data: resources.map((r) => this.present(r, options.fields)), links, meta }
+    if (options.include)
+      doc.included = this.included(resources, options.include).map((r) => this.present(r, options.fields))
+    return doc
+  }
+
+  private paginate(total: number, path: string[], options: FetchOptions, params?: FetchParams) {
+    const links: JsonApiLinks = { self: this.link(path, options, params) }
+    const requested = options.page ?? {}
+    if (requested.cursor || requested.after || requested.before)
+      throw failure(400, 'Cursor pagination is not supported', { parameter: 'page' })
+    const pageLink = (page: PageOption) => this.link(path, { ...options, page }, params)
+    if (requested.offset !== undefined || requested.limit !== undefined) {
+      const offset = requested.offset ?? 0
+      const limit = requested.limit ?? this.options.defaultPageSize ?? total
+      links.first = pageLink({ offset: 0, limit })
+      if (offset > 0) links.prev = pageLink({ offset: Math.max(0, offset - limit), limit })
+      if (offset + limit < total) links.next = pageLink({ offset: offset + limit, limit })
+      return { page: { start: offset, end: offset + limit }, links, meta: { totalItems: total } }
+    }
+    const size = requested.size ?? (requested.number !== undefined ? this.options.defaultPageSize : undefined)
+    if (!size) return { links, meta: { totalItems: total } }
+    const number = requested.number ?? 1
+    const totalPages = Math.max(1, Math.ceil(total / size))
+    links.first = pageLink({ number: 1, size })
+    links.last = pageLink({ number: totalPages, size })
+    if (number > 1) links.prev = pageLink({ number: number - 1, size })
+    if (number < totalPages) links.next = pageLink({ number: number + 1, size })
+    return {
+      page: { start: (number - 1) * size, end: number * size },
+      links,
+      meta: { totalItems: total, totalPages },
+    }
+  }
+
+  async fetchDocument(type: string, id?: string, options?: FetchOptions, params?: FetchParams) {
+    if (id) return this.document([type, id], this.find(type, id), options, params)
+    return this.document([type], [...this.getResources(type).values()], options, params)
+  }
+  async fetchAll(type: string, options?: FetchOptions, params?: FetchParams) {
+    return (await this.fetchDocument(type, undefined, options, params)).data as JsonApiResource[]
+  }
+  async fetchOne(type: string, id: string, options?: FetchOptions, params?: FetchParams) {
+    return (await this.fetchDocument(type, id, options, params)).data as JsonApiResource
+  }
+  async fetchLink(url: string, options: FetchOptions = {}, params?: FetchParams) {
+    // NOTE: links may be relative to the endpoint
+    const href = new URL(url, this.endpoint).href
+    if (!href.startsWith(this.endpoint)) throw failure(404, `Link ${url} not found`)
+    const { pathname, searchParams } = new URL(href.slice(this.endpoint.length), 'http://link')
+    const [type, id, name] = pathname.split('/').filter((s) => s)
+    const linkOptions: FetchOptions = {}
+    const filter: Filter = {}
+    const fields: Record<string, string[]> = {}
+    const page: Record<string, string | number> = {}
+    for (const [key, value] of searchParams) {
+      const path = [...key.matchAll(/\[([^\]]*)\]/g)].map((m) => m[1])
+      if (key === 'include') linkOptions.include = value.split(',')
+      else if (key === 'sort') linkOptions.sort = value.split(',')
+      else if (key.startsWith('fields[')) fields[path[0]] = value.split(',')
+      else if (key.startsWith('page[')) page[path[0]] = Number.isNaN(Number(value)) ? value : Number(value)
+      else if (key.startsWith('filter[')) filter[path.join('.')] = value.includes(',') ? value.split(',') : value
+    }
+    if (Object.keys(fields).length > 0) linkOptions.fields = fields
+    if (Object.keys(page).length > 0) linkOptions.page = page as PageOption
+    if (Object.keys(filter).length > 0) linkOptions.filter = filter
+    // NOTE: options given are added to the query of the link
+    for (const [key, value] of Object.entries(options))
+      if (value !== undefined) Object.assign(linkOptions, { [key]: value })
+    if (name) return this.fetchRelated(type, id, name, linkOptions, params)
+    return this.fetchDocument(type, id, linkOptions, params)
+  }
+  private async fetchRelated(type: string, id: string, name: string, options?: FetchOptions, params?: FetchParams) {
+    const relType = this.getRelationshipType(type, name)
+    const related = this.related(this.find(type, id), name)
+    const data = relType === RelationshipType.HasMany ? related : (related[0] ?? null)
+    return this.document([type, id, name], data, options, params)
+  }
+  async fetchHasMany(type: string, id: string, name: string, options?: FetchOptions, params?: FetchParams) {
+    return this.fetchRelated(type, id, name, options, params)
+  }
+  async fetchBelongsTo(type: string, id: string, name: string, options?: FetchOptions, params?: FetchParams) {
+    return this.fetchRelated(type, id, name, options, params)
+  }
+
+  private validateRelationships(resource: JsonApiNewResource) {
+    for (const name of Object.keys(resource.relationships ?? {}))
+      if (this.rels.get(resource.type)?.[name] === undefined)
+        throw failure(400, `Relationship ${name} of type ${resource.type} not found`, {
+          pointer: `/data/relationships/${name}`,
+        })
+  }
+
+  async post(resource: JsonApiNewResource) {
+    const resources = this.getResources(resource.type)
+    this.validateRelationships(resource)
+    if (resource.id && resources.has(resource.id))
+      throw failure(409, `Resource ${resource.type} ${resource.id} already exists`, { pointer: '/data/id' })
+    let id = resource.id
+    while (!id || resources.has(id)) id = String(this.nextId++)
+    const { lid, ...rest } = resource
+    const created: JsonApiResource = { ...clone(rest), id, attributes: clone(resource.attributes ?? {}) }
+    resources.set(id, created)
+    return { data: clone(created), links: { self: this.link([resource.type, id], {}) } } as JsonApiDocument
+  }
+  async patch(resource: JsonApiResource) {
+    const stored = this.find(resource.type, resource.id)
+    this.validateRelationships(resource)
+    stored.attributes = { ...stored.attributes, ...clone(resource.attributes ?? {}) }
+    if (resource.relationships) stored.relationships = { ...stored.relationships, ...clone(resource.relationships) }
+    return { data: clone(stored) } as JsonApiDocument
+  }
+  async delete(type: string, id: string) {
+    this.find(type, id)
+    this.getResources(type).delete(id)
+    // NOTE: linkage to the deleted resource is removed like a server with referential integrity would
+    const key = identityKey({ type, id })
+    for (const resources of this.resources.values())
+      for (const resource of resources.values())
+        for (const relationship of Object.values(resource.relationships ?? {})) {
+          if (Array.isArray(relationship.data))
+            relationship.data = relationship.data.filter((rid) => identityKey(rid) !== key)
+          else if (relationship.data && identityKey(relationship.data) === key) relationship.data = null
+        }
+  }
+  private getRelationship(type: string, id: string, name: string, toMany = false) {
+    const relType = this.getRelationshipType(type, name)
+    if (toMany && relType !== RelationshipType.HasMany)
+      throw failure(403, `Relationship ${name} of type ${type} is not a to-many relationship`)
+    const resource = this.find(type, id)
+    if (!resource.relationships) resource.relationships = {}
+    if (!resource.relationships[name])
+      resource.relationships[name] = { data: relType === RelationshipType.HasMany ? [] : null }
+    return resource.relationships[name]
+  }
+  async patchRelationship(type: string, id: string, name: string, data: JsonApiRelationship['data']) {
+    this.getRelationship(type, id, name).data = clone(data)
+  }
+  async postRelationship(type: string, id: string, name: string, data: JsonApiResourceIdentifier[]) {
+    const relationship = this.getRelationship(type, id, name, true)
+    const current = toLinkage(relationship.data)
+    const keys = new Set(current.map(identityKey))
+    relationship.data = [...current, ...data.filter((rid) => !keys.has(identityKey(rid))).map(clone)]
+  }
+  async deleteRelationship(type: string, id: string, name: string, data: JsonApiResourceIdentifier[]) {
+    const relationship = this.getRelationship(type, id, name, true)
+    const keys = new Set(data.map(identityKey))
+    relationship.data = toLinkage(relationship.data).filter((rid) => !keys.has(identityKey(rid)))
+  }
+
+  /**
+   * Perform operations in order, none of them are applied if one fails
+   */
+  async atomic(operations: JsonApiAtomicOperation[]): Promise<JsonApiAtomicDocument> {
+    const backup = new Map([...this.resources].map(([type, resources]) => [type, new Map(clone([...resources]))]))
+    const lids = new Map<string, string>()
+    const resolve = <T extends { type: string; id?: string; lid?: string }>(rid: T): T & { id: string } => {
+      const id = rid.id ?? (rid.lid && lids.get(`${rid.type}:${rid.lid}`))
+      if (!id) throw failure(400, `Local id ${rid.lid} of type ${rid.type} not found`)
+      const { lid, ...rest } = rid
+      return { ...rest, id } as T & { id: string }
+    }
+    const resolveResource = (resource: JsonApiNewResource) => {
+      const relationships = Object.fromEntries(
+        Object.entries(resource.relationships ?? {}).map(([name, { data, ...rest }]) => [
+          name,
+          { ...rest, data: Array.isArray(data) ? data.map(resolve) : data && resolve(data) },
+        ]),
+      )
+      return { ...resource, ...(resource.relationships ? { relationships } : {}) }
+    }
+    const results: JsonApiAtomicResult[] = []
+    for (const [index, { op, ref, data }] of operations.entries()) {
+      try {
+        results.push(await this.operation(op, ref && resolve(ref), data, resolveResource, resolve, lids))
+      } catch (error) {
+        this.resources.clear()
+        for (const [type, resources] of backup) this.resources.set(type, resources)
+        if (!(error instanceof JsonApiResponseError)) throw error
+        const errors = error.errors.map((e) => ({
+          ...e,
+          source: { pointer: `/atomic:operations/${index}${e.source?.pointer ?? ''}` },
+        }))
+        throw new JsonApiResponseError(error.status, { errors })
+      }
+    }
+    return { 'atomic:results': results }
+  }
+
+  private async operation(
+    op: JsonApiAtomicOperation['op'],
+    ref: { type: string; id: string; relationship?: string } | undefined,
+    data: JsonApiAtomicOperation['data'],
+    resolveResource: (resource: JsonApiNewResource) => JsonApiNewResource,
+    resolve: (rid: JsonApiResourceIdentifier) => JsonApiResourceIdentifier,
+    lids: Map<string, string>,
+  ): Promise<JsonApiAtomicResult> {
+    if (ref?.relationship) {
+      const { type, id, relationship } = ref
+      const linkage = Array.isArray(data) ? data.map(resolve) : data && resolve(data as JsonApiResourceIdentifier)
+      if (op === 'update') await this.patchRelationship(type, id, relationship, linkage ?? null)
+      else if (op === 'add') await this.postRelationship(type, id, relationship, toLinkage(linkage))
+      else await this.deleteRelationship(type, id, relationship, toLinkage(linkage))
+      return {}
+    }
+    if (op === 'remove') {
+      if (!ref) throw failure(400, 'Remove operation requires a ref')
+      await this.delete(ref.type, ref.id)
+      return {}
+    }
+    const resource = data as JsonApiNewResource | undefined
+    if (!resource?.type) throw failure(400, `${op} operation requires a resource`, { pointer: '/data' })
+    if (op === 'add') {
+      const created = (await this.post(resolveResource(resource))).data as JsonApiResource
+      if (resource.lid) lids.set(`${resource.type}:${resource.lid}`, created.id)
+      return { data: created }
+    }
+    const target = resolve(ref ?? (resource as JsonApiResourceIdentifier))
+    const doc = await this.patch({ ...resolveResource(resource), id: target.id } as JsonApiResource)
+    return { data: doc.data as JsonApiResource }
+  }
+}
+
+function toResources(data: JsonApiDocument['data']) {
+  if (!data) return []
+  return Array.isArray(data) ? data : [data]
+}
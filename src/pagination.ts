@@ -0,0 +1,108 @@
+import type { JsonApiDocument, JsonApiLink, JsonApiLinks, JsonApiMeta } from './json-api'
+import type { Model } from './pinia-json-api'
+
+/**
+ * Get the URL of a link
+ */
+export function linkHref(link?: JsonApiLink) {
+  if (!link) return
+  return typeof link === 'string' ? link : link.href
+}
+
+/**
+ * A page of records from a collection
+ */
+export interface FindAllResult<T extends Model> extends AsyncIterable<FindAllResult<T>> {
+  /**
+   * The JSON API document that was fetched
+   */
+  doc: JsonApiDocument
+  /**
+   * The records that were found
+   */
+  records: T[]
+  /**
+   * Pagination links from the document
+   */
+  links: JsonApiLinks
+  /**
+   * Meta from the document
+   */
+  meta: JsonApiMeta
+  /**
+   * Whether the server provided a link to the next page
+   */
+  hasNext: boolean
+  /**
+   * Whether the server provided a link to the previous page
+   */
+  hasPrev: boolean
+  /**
+   * Total number of records in the collection if provided by the server
+   */
+  totalItems?: number
+  /**
+   * Total number of pages in the collection if provided by the server
+   */
+  totalPages?: number
+  /**
+   * Fetch the next page by following the next link
+   * @returns the next page or undefined if there is no next link
+   */
+  nextPage(): Promise<FindAllResult<T> | undefined>
+  /**
+   * Fetch the previous page by following the prev link
+   * @returns the previous page or undefined if there is no prev link
+   */
+  prevPage(): Promise<FindAllResult<T> | undefined>
+  /**
+   * Fetch the first page by following the first link
+   * @returns the first page or undefined if there is no first link
+   */
+  firstPage(): Promise<FindAllResult<T> | undefined>
+  /**
+   * Fetch the last page by following the last link
+   * @returns the last page or undefined if there is no last link
+   */
+  lastPage(): Promise<FindAllResult<T> | undefined>
+}
+
+/**
+ * Create a page result for a fetched collection document
+ * @param load function to fetch and resolve the page at a link URL
+ */
+export function createFindAllResult<T extends Model>(
+  doc: JsonApiDocument,
+  records: T[],
+  load: (url: string) => Promise<FindAllResult<T>>,
+): FindAllResult<T> {
+  const links = doc.links ?? {}
+  const meta = doc.meta ?? {}
+  async function follow(link?: JsonApiLink) {
+    const href = linkHref(link)
+    if (!href) return
+    return load(href)
+  }
+  const result: FindAllResult<T> = {
+    doc,
+    records,
+    links,
+    meta,
+    hasNext: !!linkHref(links.next),
+    hasPrev: !!linkHref(links.prev),
+    totalItems: meta.totalItems,
+    totalPages: meta.totalPages,
+    nextPage: () => follow(links.next),
+    prevPage: () => follow(links.prev),
+    firstPage: () => follow(links.first),
+    lastPage: () => follow(links.last),
+    async *[Symbol.asyncIterator]() {
+      let page: FindAllResult<T> | undefined = result
+      while (page) {
+        yield page
+        page = await page.nextPage()
+      }
+    },
+  }
+  return result
+}
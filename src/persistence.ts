@@ -0,0 +1,143 @@
+import { TimeoutError } from 'ky'
+import type { DehydratedState } from './hydration'
+import type { JsonApiResource } from './json-api'
+import type { JsonApiResponseError } from './json-api-error'
+import { clone } from './util'
+
+/**
+ * Write made while offline, to be replayed when the network is back
+ */
+export interface PendingWrite {
+  op: 'create' | 'update' | 'delete'
+  type: string
+  id: string
+  /**
+   * Whether id is a temporary id to be replaced by the id assigned by the server
+   */
+  local?: boolean
+  /**
+   * Resource to send for create and update
+   */
+  resource?: JsonApiResource
+  /**
+   * Number of times replaying the write failed because the server could not be reached
+   */
+  attempts?: number
+}
+
+/**
+ * Pending write that was rejected by the server when replayed, or that kept failing to reach the server
+ */
+export interface SyncConflict {
+  write: PendingWrite
+  /**
+   * Error of the server, or of the last attempt for a write that kept failing
+   */
+  error: JsonApiResponseError | Error
+}
+
+export interface SyncResult {
+  /**
+   * Number of writes that were replayed successfully
+   */
+  synced: number
+  /**
+   * Writes that were rejected by the server or failed too many times and were removed from the queue
+   */
+  conflicts: SyncConflict[]
+  /**
+   * Number of writes left in the queue because the network failed again
+   */
+  pending: number
+}
+
+/**
+ * State saved by a persistence adapter
+ */
+export interface PersistedState {
+  state: DehydratedState
+  queue: PendingWrite[]
+}
+
+/**
+ * Storage for the record cache and pending writes of a store
+ */
+export interface PersistenceAdapter {
+  load(): Promise<PersistedState | undefined>
+  save(state: PersistedState): Promise<void>
+}
+
+// NOTE: messages of the TypeError fetch rejects with on network failures in browsers and Node.js
+const networkErrorMessages = [
+  'Failed to fetch',
+  'NetworkError when attempting to fetch resource.',
+  'Load failed',
+  'fetch failed',
+  'Network request failed',
+]
+
+/**
+ * Whether a request failed because the server could not be reached
+ */
+export function isNetworkError(error: unknown) {
+  if (error instanceof TimeoutError) return true
+  // NOTE: other TypeErrors, e.g. invalid URLs or programming errors, are not network failures
+  if (!(error instanceof TypeError)) return false
+  return isOffline() || networkErrorMessages.includes(error.message)
+}
+
+/**
+ * Whether the browser reports that it is offline
+ * @internal
+ */
+export function isOffline() {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+/**
+ * Keeps persisted state in memory, e.g. for tests
+ */
+export function memoryAdapter(): PersistenceAdapter {
+  let saved: PersistedState | undefined
+  return {
+    async load() {
+      return saved && clone(saved)
+    },
+    async save(state) {
+      saved = clone(state)
+    },
+  }
+}
+
+/**
+ * Persists state in IndexedDB
+ * @param key key of the state, e.g. the store name
+ * @param database name of the IndexedDB database
+ */
+export function indexedDbAdapter(key: string, database = 'pinia-json-api'): PersistenceAdapter {
+  let db: Promise<IDBDatabase> | undefined
+  function open() {
+    if (!db)
+      db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(database, 1)
+        request.onupgradeneeded = () => request.result.createObjectStore('state')
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    return db
+  }
+  async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) {
+    const store = (await open()).transaction('state', mode).objectStore('state')
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(store)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return {
+    load: () => run<PersistedState | undefined>('readonly', (store) => store.get(key)),
+    async save(state) {
+      await run('readwrite', (store) => store.put(state, key))
+    },
+  }
+}
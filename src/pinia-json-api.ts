@@ -1,8 +1,95 @@
-import { defineStore } from 'pinia'
-import type { ComputedRef } from 'vue'
-import type { JsonApiDocument, JsonApiResource, JsonApiResourceIdentifier } from './json-api'
-import { type FetchOptions, type FetchParams, type JsonApiFetcher, JsonApiFetcherImpl } from './json-api-fetcher'
-import { camel } from './util'
+import type { RetryOptions } from 'ky'
+import { defineStore, skipHydrate } from 'pinia'
+import { type ComputedRef, markRaw, reactive, ref, toRaw, watch } from 'vue'
+import type { AtomicTransaction } from './atomic'
+import { getDecoratedModel } from './decorators'
+import type { DehydratedQuery, DehydratedState } from './hydration'
+import { type Inflection, identityInflection, inflectPath, kebabInflection, snakeInflection } from './inflection'
+import type {
+  JsonApiAtomicOperation,
+  JsonApiAtomicRef,
+  JsonApiAtomicResult,
+  JsonApiDocument,
+  JsonApiLinks,
+  JsonApiMeta,
+  JsonApiNewResource,
+  JsonApiRelationship,
+  JsonApiResource,
+  JsonApiResourceIdentifier,
+} from './json-api'
+import { JsonApiResponseError } from './json-api-error'
+import {
+  type FetchOptions,
+  type FetchParams,
+  type JsonApiFetcher,
+  JsonApiFetcherImpl,
+  type RequestOptions,
+} from './json-api-fetcher'
+import type { Middleware } from './middleware'
+import { type FindAllResult, createFindAllResult, linkHref } from './pagination'
+import {
+  type PendingWrite,
+  type PersistenceAdapter,
+  type SyncResult,
+  indexedDbAdapter,
+  isNetworkError,
+  isOffline,
+} from './persistence'
+import { type FilterStrategy, type ModelField, mapFilterKeys, mapSortKeys } from './query'
+import type { ChangeEvent, ChangeListener, PushMessage } from './realtime'
+import type { Transform } from './transforms'
+import { clone, isEqual } from './util'
+import {
+  type AttributeSchema,
+  JsonApiValidationError,
+  type ValidationOptions,
+  validateDocument,
+  validatingFetcher,
+} from './validation'
+
+const snapshotKey = Symbol('snapshot')
+const stubKey = Symbol('stub')
+const relationshipsKey = Symbol('relationships')
+const loadedFieldsKey = Symbol('loadedFields')
+
+/**
+ * Delay in milliseconds of saving changes to cached records with the persistence adapter
+ */
+const persistDelay = 200
+
+/**
+ * State of a record as last loaded from or saved to the server
+ * @internal
+ */
+export interface Snapshot {
+  attributes: Record<string, unknown>
+  relationships: Record<string, unknown>
+}
+
+/**
+ * Access fields of a record by name
+ */
+function fieldsOf(record: Model) {
+  return record as unknown as Record<string, unknown>
+}
+
+/**
+ * JSON:API types of model classes registered by stores
+ */
+const modelTypes = new WeakMap<typeof Model, string>()
+
+/**
+ * Key identifying a record by type and id, as ids of records of different types may be equal
+ */
+function recordKey(record: Model) {
+  const ctor = record.constructor as typeof Model
+  return `${modelTypes.get(ctor) ?? ctor.name}:${record.id}`
+}
+
+function relationshipKey(value: unknown) {
+  if (Array.isArray(value)) return value.map(recordKey).join(',')
+  return value ? recordKey(value as Model) : value
+}
 
 /**
  * Base class for models
@@ -11,7 +98,160 @@ export class Model {
   constructor(public id: string) {
     this.id = id
   }
-  [key: string]: unknown
+  declare [snapshotKey]?: Snapshot
+  declare [stubKey]?: boolean
+  declare [relationshipsKey]?: Record<string, Omit<JsonApiRelationship, 'data'>>
+  declare [loadedFieldsKey]?: Set<string>
+
+  /**
+   * Whether the record has not been loaded from or saved to the server
+   */
+  get isNew() {
+    return !this[snapshotKey]
+  }
+
+  /**
+   * Whether the attributes of the record have been loaded, false for stub records only known from relationship linkage
+   */
+  get isLoaded() {
+    return !this[stubKey]
+  }
+
+  /**
+   * Whether all fields have been loaded, false for stub records and records loaded with a sparse fieldset
+   */
+  get isComplete() {
+    return this.isLoaded && !this[loadedFieldsKey]
+  }
+
+  /**
+   * Whether an attribute or relationship has been loaded rather than left out by a sparse fieldset
+   */
+  isFieldLoaded(name: string) {
+    if (!this.isLoaded) return name === 'id'
+    return !this[loadedFieldsKey] || this[loadedFieldsKey].has(name)
+  }
+
+  /**
+   * Links of a relationship as provided by the server, e.g. the related link to fetch it
+   */
+  relationshipLinks(name: string): JsonApiLinks | undefined {
+    return this[relationshipsKey]?.[name]?.links
+  }
+
+  /**
+   * Meta of a relationship as provided by the server
+   */
+  relationshipMeta(name: string): JsonApiMeta | undefined {
+    return this[relationshipsKey]?.[name]?.meta
+  }
+
+  /**
+   * Whether the record is new or has attributes or relationships changed since it was loaded
+   */
+  get isDirty() {
+    return this.isNew || Object.keys(this.changedAttributes()).length > 0 || this.changedRelationships().length > 0
+  }
+
+  /**
+   * Attributes changed since the record was loaded
+   * @returns changed attribute names mapped to a tuple of old and new value
+   */
+  changedAttributes() {
+    const changed: Record<string, [unknown, unknown]> = {}
+    const snapshot = this[snapshotKey]
+    if (!snapshot) return changed
+    for (const [key, value] of Object.entries(this)) {
+      if (key === 'id' || key in snapshot.relationships) continue
+      const oldValue = snapshot.attributes[key]
+      if (!isEqual(oldValue, value)) changed[key] = [oldValue, value]
+    }
+    return changed
+  }
+
+  /**
+   * Relationships changed since the record was loaded
+   * @returns names of changed relationships
+   */
+  changedRelationships() {
+    const snapshot = this[snapshotKey]
+    if (!snapshot) return []
+    return Object.keys(snapshot.relationships).filter(
+      (name) => relationshipKey(snapshot.relationships[name]) !== relationshipKey(fieldsOf(this)[name]),
+    )
+  }
+
+  /**
+   * Revert attributes and relationships to the state when the record was loaded
+   */
+  rollback() {
+    const snapshot = this[snapshotKey]
+    if (!snapshot) return
+    for (const key of Object.keys(this.changedAttributes())) {
+      if (key in snapshot.attributes) fieldsOf(this)[key] = clone(snapshot.attributes[key])
+      else delete fieldsOf(this)[key]
+    }
+    for (const name of this.changedRelationships()) {
+      const value = snapshot.relationships[name]
+      fieldsOf(this)[name] = Array.isArray(value) ? [...value] : value
+    }
+  }
+}
+
+/**
+ * Record the current state of a record as its clean state
+ * @param names limit to these attribute or relationship names if the record already has a snapshot
+ */
+function takeSnapshot(record: Model, relNames: string[], names?: string[]) {
+  const raw = toRaw(record)
+  const current = names && raw[snapshotKey]
+  const snapshot: Snapshot = current
+    ? { attributes: { ...current.attributes }, relationships: { ...current.relationships } }
+    : { attributes: {}, relationships: {} }
+  const skip = (name: string) => current && !names.includes(name)
+  for (const name of relNames) {
+    if (skip(name)) continue
+    const value = fieldsOf(raw)[name]
+    snapshot.relationships[name] = Array.isArray(value) ? [...value] : value
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === 'id' || relNames.includes(key) || skip(key)) continue
+    snapshot.attributes[key] = clone(value)
+  }
+  record[snapshotKey] = markRaw(snapshot)
+}
+
+/**
+ * Track the fields loaded into a record from a resource
+ * @param names fields of the sparse fieldset the resource was loaded with, all fields if omitted
+ */
+function trackLoadedFields(record: Model, names?: string[]) {
+  const raw = toRaw(record)
+  const loaded = raw[loadedFieldsKey]
+  if (!names) record[loadedFieldsKey] = undefined
+  // NOTE: a complete record stays complete, fields loaded before are kept
+  else if (loaded || raw[stubKey] || !raw[snapshotKey])
+    record[loadedFieldsKey] = markRaw(new Set([...(loaded ?? []), ...names]))
+}
+
+/**
+ * Fields and snapshot of a record to restore when an optimistic change fails
+ */
+interface RecordState {
+  record: Model
+  fields: Record<string, unknown>
+  snapshot?: Snapshot
+}
+
+function captureState(record: Model): RecordState {
+  const raw = toRaw(record)
+  return { record, fields: clone({ ...raw }), snapshot: raw[snapshotKey] }
+}
+
+function restoreState({ record, fields, snapshot }: RecordState) {
+  for (const key of Object.keys(record)) if (!(key in fields)) delete fieldsOf(record)[key]
+  Object.assign(record, fields)
+  record[snapshotKey] = snapshot
 }
 
 export interface ModelDefinition {
@@ -27,6 +267,42 @@ export interface ModelDefinition {
    * Relationships for the model
    */
   rels?: Record<string, Relationship>
+  /**
+   * Transforms for attributes of the model keyed by attribute name
+   */
+  transforms?: Record<string, Transform>
+  /**
+   * Cache policy for queries of the model, overrides the store default
+   */
+  cache?: CachePolicy
+  /**
+   * Expected types of attributes keyed by attribute name, checked if validation is enabled in the store config
+   */
+  schema?: AttributeSchema
+}
+
+/**
+ * Policy for serving query results from the cache
+ */
+export interface CachePolicy {
+  /**
+   * Time in milliseconds a query result is fresh and served without a request
+   */
+  maxAge: number
+  /**
+   * Additional time in milliseconds a stale query result is served while it is revalidated in the background
+   */
+  staleWhileRevalidate?: number
+}
+
+/**
+ * Options for requests that change records
+ */
+export interface WriteOptions {
+  /**
+   * Apply the change to cached records right away and restore their previous state if the request fails
+   */
+  optimistic?: boolean
 }
 
 export interface PiniaJsonApiStoreConfig {
@@ -37,15 +313,61 @@ export interface PiniaJsonApiStoreConfig {
   /**
    * Model definitions for the store
    */
-  modelDefinitions: ModelDefinition[]
+  modelDefinitions: (ModelDefinition | typeof Model)[]
+  /**
+   * Validate documents received against JSON:API structural rules and the attribute schemas of models, by default
+   * documents are not validated. Strict mode rejects invalid documents with JsonApiValidationError, lenient mode warns.
+   */
+  validation?: 'strict' | 'lenient'
+  /**
+   * Conversion of server member names to model field names, either kebab-case (older JSON:API convention) or
+   * snake_case to camelCase, or a custom inflection. By default names are used as is.
+   */
+  inflection?: 'kebab' | 'snake' | Inflection
   /**
    * Whether to convert kebab-case names from JSON:API (older convention) to camelCase
+   * @deprecated use inflection: 'kebab'
    */
   kebabCase?: boolean
   /**
    * Optional state for the fetcher (e.g. for authentication)
+   * @deprecated use middleware, e.g. bearerAuthMiddleware
    */
   state?: ComputedRef<{ token: string }>
+  /**
+   * Middleware around requests made by the default fetcher, e.g. for authentication or logging
+   */
+  middleware?: Middleware[]
+  /**
+   * Default cache policy for queries, by default results are not cached
+   */
+  cache?: CachePolicy
+  /**
+   * Strategy to serialize structured filters, defaults to dotFilterStrategy
+   */
+  filterStrategy?: FilterStrategy
+  /**
+   * Default request timeout in milliseconds or false for no timeout
+   */
+  timeout?: number | false
+  /**
+   * Default retry policy as number of retries or retry options with backoff
+   */
+  retry?: RetryOptions | number
+  /**
+   * Path relative to the endpoint for atomic operations requests, defaults to operations
+   */
+  atomicPath?: string
+  /**
+   * Adapter to persist the record cache and writes made while offline, which are queued until synced, true to persist
+   * in IndexedDB under the store name
+   */
+  persistence?: PersistenceAdapter | true
+  /**
+   * Number of syncs a pending write may fail to reach the server while online before it is reported as a conflict,
+   * defaults to 5
+   */
+  maxSyncAttempts?: number
 }
 
 export enum RelationshipType {
@@ -56,12 +378,55 @@ export enum RelationshipType {
 /**
  * Relationship definition
  */
-export interface Relationship {
-  ctor: typeof Model
+export interface Relationship<C extends typeof Model = typeof Model> {
+  /**
+   * Model(s) the relationship can refer to, an array for polymorphic relationships or omitted to allow any registered model
+   */
+  ctor?: C | C[]
   type: RelationshipType
 }
 
+/**
+ * Instance type of the models a relationship can refer to, a union for polymorphic relationships
+ */
+export type RelationshipModel<R extends Relationship> = R extends { ctor: infer C }
+  ? C extends (infer E extends typeof Model)[]
+    ? InstanceType<E>
+    : C extends typeof Model
+      ? InstanceType<C>
+      : Model
+  : Model
+
+/**
+ * Names of fields of a model that hold related records
+ */
+export type RelationshipName<T extends Model> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends Model | Model[] ? K : never
+}[keyof T] &
+  string
+
+/**
+ * Names of fields of a model that hold arrays of related records
+ */
+export type ToManyRelationshipName<T extends Model> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends Model[] ? K : never
+}[keyof T] &
+  string
+
+/**
+ * Normalized record cache keyed by type and then by id
+ */
+export type RecordCache = Record<string, Record<string, Model>>
+
 export interface PiniaJsonApiStore {
+  /**
+   * Normalized cache of all records loaded by this store
+   */
+  records: RecordCache
+  /**
+   * Writes made while offline that have not been synced yet, only with persistence
+   */
+  pendingWrites: PendingWrite[]
   /**
    * Models registered with this store
    */
@@ -71,18 +436,23 @@ export interface PiniaJsonApiStore {
    */
   relRegistry: Map<typeof Model, Record<string, Relationship>>
   /**
-   * @internal
+   * Get a record from the cache without making a request
+   * @returns the cached record or undefined if not loaded
    */
-  createRecord<T extends typeof Model>(ctor: T, properties: Partial<InstanceType<T>> & { id?: string }): InstanceType<T>
+  peekRecord<T extends typeof Model>(ctor: T, id: string): InstanceType<T> | undefined
+  /**
+   * Get all cached records of a given type without making a request, stub records that are not loaded are left out
+   */
+  peekAll<T extends typeof Model>(ctor: T): InstanceType<T>[]
   /**
    * Find all records of a given type
-   * @returns the JSON API document that was fetched and the records that were found
+   * @returns a page with the JSON API document that was fetched and the records that were found
    */
   findAll<T extends typeof Model>(
     ctor: T,
-    options?: FetchOptions,
-    params?: FetchParams
-  ): Promise<{ doc: JsonApiDocument; records: InstanceType<T>[] }>
+    options?: FetchOptions<InstanceType<T>>,
+    params?: FetchParams,
+  ): Promise<FindAllResult<InstanceType<T>>>
   /**
    * Find a single record by id
    * @returns the record that was found
@@ -90,42 +460,235 @@ export interface PiniaJsonApiStore {
   findRecord<T extends typeof Model>(
     ctor: T,
     id: string,
-    options?: FetchOptions,
-    params?: FetchParams
+    options?: FetchOptions<InstanceType<T>>,
+    params?: FetchParams,
   ): Promise<InstanceType<T>>
+  /**
+   * Load fields of a record that were left out by a sparse fieldset, or of a stub record
+   *
+   * The fields are merged into the same record. No request is made if the fields are loaded already.
+   * @param names fields to load, all fields if omitted
+   * @returns the record
+   */
+  completeRecord<T extends Model>(record: T, names?: ModelField<T>[], options?: RequestOptions): Promise<T>
   /**
    * Find related records for a given record and relationship name
+   *
+   * Uses the related link of the relationship if the server provided one, included resources are resolved too.
    * @returns the JSON API document that was fetched
    */
-  findRelated(record: Model, name: string, options?: FetchOptions, params?: FetchParams): Promise<JsonApiDocument>
+  findRelated<T extends Model>(
+    record: T,
+    name: RelationshipName<T>,
+    options?: FetchOptions,
+    params?: FetchParams,
+  ): Promise<JsonApiDocument>
+  /**
+   * Create a new record on the server
+   *
+   * If properties include an id it is sent as a client-generated id, otherwise the id is assigned by the server.
+   * Only records with a client-generated id are cached optimistically.
+   * @returns the created record with attributes from the server response applied
+   */
+  createRecord<T extends typeof Model>(
+    ctor: T,
+    properties: Partial<InstanceType<T>> & { id?: string },
+    options?: WriteOptions,
+  ): Promise<InstanceType<T>>
+  /**
+   * Update an existing record on the server
+   *
+   * If optimistic the changes are rolled back when the request fails.
+   * @returns the updated record with attributes from the server response applied
+   */
+  updateRecord<T extends Model>(record: T, options?: WriteOptions): Promise<T>
+  /**
+   * Delete a record on the server and evict it from the cache and from relationships of cached records
+   */
+  deleteRecord(record: Model, options?: WriteOptions): Promise<void>
+  /**
+   * Create or update a record depending on whether it has been loaded into the store
+   * @returns the saved record
+   */
+  saveRecord<T extends Model>(record: T, options?: WriteOptions): Promise<T>
+  /**
+   * Invalidate cached query results of a type or of a single record so that they are fetched again
+   */
+  invalidate(ctor: typeof Model | string, id?: string): void
+  /**
+   * Replace the linkage of a relationship on the server and then on the record, or first on the record if optimistic
+   */
+  setRelationship<T extends Model>(
+    record: T,
+    name: RelationshipName<T>,
+    related: Model | Model[] | null,
+    options?: WriteOptions,
+  ): Promise<void>
+  /**
+   * Add records to a to-many relationship on the server and then on the record, or first on the record if optimistic
+   */
+  addToRelationship<T extends Model>(
+    record: T,
+    name: ToManyRelationshipName<T>,
+    related: Model[],
+    options?: WriteOptions,
+  ): Promise<void>
+  /**
+   * Remove records from a to-many relationship on the server and then from the record, or first from the record if optimistic
+   */
+  removeFromRelationship<T extends Model>(
+    record: T,
+    name: ToManyRelationshipName<T>,
+    related: Model[],
+    options?: WriteOptions,
+  ): Promise<void>
+  /**
+   * Start a transaction to send several writes as a single request using the Atomic Operations extension
+   */
+  atomic(): AtomicTransaction
+  /**
+   * Serialize cached records and query results, e.g. at the end of server-side rendering
+   */
+  dehydrate(): DehydratedState
+  /**
+   * Restore records as model instances and query results from a dehydrated state, e.g. on the client
+   */
+  hydrate(state: DehydratedState): void
+  /**
+   * Load the record cache and pending writes from the persistence adapter, e.g. when the app starts
+   */
+  restore(): Promise<void>
+  /**
+   * Save the record cache and pending writes with the persistence adapter
+   *
+   * The record cache is also saved when it changes.
+   */
+  persist(): Promise<void>
+  /**
+   * Replay pending writes in order, replacing temporary ids of records created offline with ids assigned by the server
+   * @returns the number of synced writes, writes rejected by the server and the number of writes still pending
+   */
+  sync(): Promise<SyncResult>
+  /**
+   * Merge a document or delete notice pushed by the server into the cached records
+   *
+   * Resources of a document are resolved like fetched documents, deleted records are removed from the cache and from
+   * relationships. Listeners registered with onChange are called for each changed record.
+   * @returns the changes made
+   */
+  ingest(message: PushMessage): ChangeEvent[]
+  /**
+   * Listen to changes made by ingesting pushed messages
+   * @returns function to stop listening
+   */
+  onChange(listener: ChangeListener): () => void
 }
 
 export type PiniaJsonApiStoreUseFunction = () => PiniaJsonApiStore
 
+/**
+ * Get the model definition of a model class declared with decorators
+ * @internal
+ */
+export function toModelDefinition(definition: ModelDefinition | typeof Model): ModelDefinition {
+  if (typeof definition !== 'function') return definition
+  const decorated = getDecoratedModel(definition)
+  if (!decorated) throw new Error(`Model ${definition.name} is not declared with @model`)
+  const rels: Record<string, Relationship> = {}
+  const transforms: Record<string, Transform> = {}
+  for (const { name, kind, transform, target } of decorated.fields) {
+    if (transform) transforms[name] = transform
+    if (kind === 'attr') continue
+    const type = kind === 'hasMany' ? RelationshipType.HasMany : RelationshipType.BelongsTo
+    rels[name] = target ? { ctor: target(), type } : { type }
+  }
+  return { type: decorated.type, ctor: definition, rels, transforms, cache: decorated.cache, schema: decorated.schema }
+}
+
+function resolveInflection(inflection?: 'kebab' | 'snake' | Inflection) {
+  if (inflection === 'kebab') return kebabInflection
+  if (inflection === 'snake') return snakeInflection
+  return inflection ?? identityInflection
+}
+
 export function definePiniaJsonApiStore(name: string, config: PiniaJsonApiStoreConfig, fetcher?: JsonApiFetcher) {
-  const _fetcher = fetcher ?? new JsonApiFetcherImpl(config.endpoint, config.state)
+  const baseFetcher =
+    fetcher ??
+    new JsonApiFetcherImpl(config.endpoint, config.state, {
+      filterStrategy: config.filterStrategy,
+      timeout: config.timeout,
+      retry: config.retry,
+      middleware: config.middleware,
+      atomicPath: config.atomicPath,
+    })
+  const _fetcher = config.validation ? validatingFetcher(baseFetcher, checkDocument) : baseFetcher
 
   const modelRegistry = new Map<typeof Model, string>()
   const modelsByType = new Map<string, typeof Model>()
   const relsRegistry = new Map<typeof Model, Record<string, Relationship>>()
+  const transformsRegistry = new Map<typeof Model, Record<string, Transform>>()
+  const cachePolicies = new Map<typeof Model, CachePolicy>()
+  const schemas = new Map<typeof Model, AttributeSchema>()
 
-  for (const modelDef of config.modelDefinitions) {
+  for (const modelDef of config.modelDefinitions.map(toModelDefinition)) {
     const ctor = modelDef.ctor
     modelRegistry.set(ctor, modelDef.type)
+    modelTypes.set(ctor, modelDef.type)
     modelsByType.set(modelDef.type, ctor)
     if (modelDef.rels) relsRegistry.set(ctor, modelDef.rels)
+    if (modelDef.transforms) transformsRegistry.set(ctor, modelDef.transforms)
+    if (modelDef.cache) cachePolicies.set(ctor, modelDef.cache)
+    if (modelDef.schema) schemas.set(ctor, modelDef.schema)
   }
 
+  const inflection = resolveInflection(config.inflection ?? (config.kebabCase ? 'kebab' : undefined))
+
   function normalize(str: string) {
-    return config.kebabCase ? camel(str) : str
+    return inflection.normalize(str)
   }
 
-  function internalCreateRecord<T extends typeof Model>(ctor: T, id: string, properties?: Partial<InstanceType<T>>) {
-    const type = getModelType(ctor)
-    const record = new ctor(id)
-    if (properties)
-      for (const [key, value] of Object.entries(properties)) if (value !== undefined) record[normalize(key)] = value
-    return record as InstanceType<T>
+  function denormalize(str: string) {
+    return inflection.denormalize(str)
+  }
+
+  let validationOptions: ValidationOptions | undefined
+
+  /**
+   * Check a document received according to the validation mode of the store
+   * @throws JsonApiValidationError in strict mode if the document is invalid
+   */
+  function checkDocument(doc: unknown) {
+    // NOTE: schemas use the member names of documents
+    validationOptions ??= {
+      types: Object.fromEntries(
+        [...modelsByType].map(([type, ctor]) => {
+          const attributes = Object.entries(schemas.get(ctor) ?? {}).map(([name, check]) => [denormalize(name), check])
+          const relationships = Object.keys(relsRegistry.get(ctor) ?? {}).map(denormalize)
+          return [type, { attributes: Object.fromEntries(attributes), relationships }]
+        }),
+      ),
+    }
+    const issues = validateDocument(doc, validationOptions)
+    if (issues.length === 0) return
+    const error = new JsonApiValidationError(issues)
+    if (config.validation === 'strict') throw error
+    console.warn(error.message)
+  }
+
+  /**
+   * Convert model field names in options to server names
+   */
+  function toServerOptions<M>(options?: FetchOptions<M>): FetchOptions | undefined {
+    if (!options || inflection === identityInflection) return options as FetchOptions | undefined
+    const { fields, include, filter, sort } = options as FetchOptions
+    return {
+      ...(options as FetchOptions),
+      fields:
+        fields && Object.fromEntries(Object.entries(fields).map(([type, names]) => [type, names.map(denormalize)])),
+      include: include?.map((path) => inflectPath(path, denormalize)),
+      filter: filter && typeof filter !== 'string' ? mapFilterKeys(filter, denormalize) : filter,
+      sort: sort && mapSortKeys(sort, denormalize),
+    }
   }
 
   function getModelType(ctor: typeof Model) {
@@ -140,118 +703,953 @@ export function definePiniaJsonApiStore(name: string, config: PiniaJsonApiStoreC
     return ctor
   }
 
-  function resourcesToRecords<T extends typeof Model>(
-    ctor: T,
-    resources: JsonApiResource[],
-    included?: JsonApiResource[]
-  ) {
-    function createRecord<T extends typeof Model>(resource: JsonApiResource) {
-      return internalCreateRecord<T>(
-        getModel(resource.type) as T,
-        resource.id,
-        resource.attributes as Partial<InstanceType<T>>
-      )
+  function getRelationship(ctor: typeof Model, name: string) {
+    const rels = relsRegistry.get(ctor)
+    if (!rels) throw new Error(`Model ${ctor.name} has no relationships`)
+    const rel = rels[name]
+    if (!rel) throw new Error(`Relationship ${name} not defined`)
+    return rel
+  }
+
+  function identityKey(rid: JsonApiResourceIdentifier) {
+    return `${rid.type}:${rid.id}`
+  }
+
+  /**
+   * Whether a relationship can refer to records of a type
+   */
+  function acceptsType(rel: Relationship, type: string) {
+    if (!rel.ctor) return modelsByType.has(type)
+    const ctors = Array.isArray(rel.ctor) ? rel.ctor : [rel.ctor]
+    return ctors.some((ctor) => getModelType(ctor) === type)
+  }
+
+  return defineStore(name, () => {
+    /**
+     * Normalized record cache keyed by type and id
+     */
+    // NOTE: serialized Pinia state cannot restore model instances, hydrate from dehydrate() instead
+    const records = skipHydrate(ref<RecordCache>({}))
+
+    function getTypeCache(type: string) {
+      if (!records.value[type]) records.value[type] = {}
+      return records.value[type]
     }
-    // create records for included resources
-    const includedMap = new Map<string, InstanceType<typeof Model>>()
-    if (included) for (const resource of included) includedMap.set(resource.id, createRecord(resource))
-    // create records for main resources
-    const records = resources.map((r) => internalCreateRecord<T>(ctor, r.id, r.attributes as Partial<InstanceType<T>>))
-    const recordsMap = new Map<string, InstanceType<typeof Model>>()
-    for (const r of records) recordsMap.set(r.id, r)
-    // populate relationships
-    function populateRelationships(resource: JsonApiResource) {
-      const record = recordsMap.get(resource.id) ?? includedMap.get(resource.id)
-      if (!record) throw new Error('Unexpected not found record')
-      const recordCtor = getModel(resource.type)
-      if (!resource.relationships) return
-      for (const [name, reldoc] of Object.entries(resource.relationships)) {
-        const rels = relsRegistry.get(recordCtor)
+
+    function internalCreateRecord<T extends typeof Model>(ctor: T, id: string, properties?: Partial<InstanceType<T>>) {
+      const cache = getTypeCache(getModelType(ctor))
+      if (!cache[id]) cache[id] = new ctor(id)
+      // NOTE: read back from the cache to get the reactive instance
+      const record = cache[id]
+      const transforms = transformsRegistry.get(ctor) ?? {}
+      if (properties)
+        for (const [key, value] of Object.entries(properties)) {
+          if (value === undefined) continue
+          const name = normalize(key)
+          const transform = transforms[name]
+          fieldsOf(record)[name] = transform ? transform.deserialize(value) : value
+        }
+      return record as InstanceType<T>
+    }
+
+    function snapshot(record: Model, names?: string[]) {
+      const rels = relsRegistry.get(record.constructor as typeof Model) ?? {}
+      takeSnapshot(record, Object.keys(rels), names)
+    }
+
+    /**
+     * Create a record only known by its identifier, to be loaded with findRecord or findRelated
+     */
+    function createStub(rid: JsonApiResourceIdentifier) {
+      const record = internalCreateRecord(getModel(rid.type), rid.id)
+      record[stubKey] = true
+      snapshot(record)
+      return record
+    }
+
+    function peekRecord<T extends typeof Model>(ctor: T, id: string) {
+      return records.value[getModelType(ctor)]?.[id] as InstanceType<T> | undefined
+    }
+
+    function peekAll<T extends typeof Model>(ctor: T) {
+      const cached = Object.values(records.value[getModelType(ctor)] ?? {}) as InstanceType<T>[]
+      return cached.filter((record) => record.isLoaded)
+    }
+
+    /**
+     * Resolve resources and included resources of a document into cached records with relationships populated
+     * @param fields sparse fieldsets the document was requested with
+     * @returns records for the primary resources
+     */
+    function resourcesToRecords<T extends typeof Model>(
+      ctor: T,
+      resources: JsonApiResource[],
+      included: JsonApiResource[] = [],
+      fields?: Record<string, string[]>,
+    ) {
+      // records for all resources in the document keyed by type and id
+      const documentMap = new Map<string, Model>()
+      // names of the members present in the resources of the records
+      const memberNames = new Map<Model, string[]>()
+      function createRecord(resource: JsonApiResource) {
+        const record = internalCreateRecord(getModel(resource.type), resource.id, resource.attributes)
+        trackLoadedFields(record, fields?.[resource.type])
+        // NOTE: set through the reactive record so that views of isLoaded and peekAll update
+        delete record[stubKey]
+        documentMap.set(identityKey(resource), record)
+        const present = [
+          ...Object.keys(resource.attributes ?? {}).filter((name) => resource.attributes?.[name] !== undefined),
+          ...Object.keys(resource.relationships ?? {}).filter(
+            (name) => resource.relationships?.[name].data !== undefined,
+          ),
+        ]
+        memberNames.set(record, present.map(normalize))
+        return record
+      }
+      for (const resource of included) createRecord(resource)
+      const primary = resources.map(createRecord)
+      function resolve(rid: JsonApiResourceIdentifier) {
+        return documentMap.get(identityKey(rid)) ?? records.value[rid.type]?.[rid.id]
+      }
+      function populateRelationships(resource: JsonApiResource) {
+        if (!resource.relationships) return
+        const record = documentMap.get(identityKey(resource))
+        if (!record) throw new Error('Unexpected not found record')
+        const rels = relsRegistry.get(getModel(resource.type))
         // NOTE: if relationship is not defined but exists in data, it is ignored
-        if (!rels) continue
-        const normalizedName = normalize(name)
-        const rel = rels[normalizedName]
-        if (!rel) throw new Error(`Relationship ${normalizedName} not defined`)
-        const relType = getModelType(rel.ctor)
-        const rids =
-          rel.type === RelationshipType.HasMany
-            ? (reldoc.data as JsonApiResourceIdentifier[])
-            : [reldoc.data as JsonApiResourceIdentifier]
-        const relIncludedRecords = rids
-          .filter((d) => d && includedMap.has(d.id) && d.type === relType)
-          .map((d) => includedMap.get(d.id))
-        const relRecords = rids
-          .filter((d) => d && recordsMap.has(d.id) && d.type === relType)
-          .map((d) => recordsMap.get(d.id))
-        relRecords.push(...relIncludedRecords)
-        record[normalizedName] = rel.type === RelationshipType.HasMany ? relRecords : relRecords[0]
+        if (!rels) return
+        for (const [name, reldoc] of Object.entries(resource.relationships)) {
+          const normalizedName = normalize(name)
+          const rel = rels[normalizedName]
+          if (!rel) throw new Error(`Relationship ${normalizedName} not defined`)
+          const { data, ...info } = reldoc
+          if (info.links || info.meta)
+            record[relationshipsKey] = markRaw({ ...record[relationshipsKey], [normalizedName]: info })
+          // NOTE: relationship without linkage data, e.g. only links
+          if (data === undefined) continue
+          const rids = (
+            ([] as (JsonApiResourceIdentifier | null)[]).concat(data) as JsonApiResourceIdentifier[]
+          ).filter((rid) => rid && acceptsType(rel, rid.type))
+          // NOTE: linkage to resources that are not included resolves to stub records
+          const relRecords = rids.map((rid) => resolve(rid) ?? createStub(rid))
+          fieldsOf(record)[normalizedName] =
+            rel.type === RelationshipType.HasMany ? relRecords : (relRecords[0] ?? null)
+        }
       }
+      for (const resource of resources) populateRelationships(resource)
+      for (const resource of included) populateRelationships(resource)
+      // NOTE: only members present are clean, local changes to other fields stay dirty
+      for (const record of documentMap.values()) snapshot(record, memberNames.get(record))
+      return primary as InstanceType<T>[]
     }
-    if (included) {
-      resources.map(populateRelationships)
-      included.map(populateRelationships)
+
+    /**
+     * Requests in flight keyed by query
+     */
+    const inFlight = new Map<
+      string,
+      { promise: Promise<JsonApiDocument>; controller: AbortController; waiting: number }
+    >()
+
+    /**
+     * Cached query results keyed by query
+     */
+    const queryCache = new Map<string, { time: number; result: unknown; type: string; id?: string; ids: Set<string> }>()
+
+    function queryKey(kind: string, type: string, id?: string, options?: FetchOptions, params?: FetchParams) {
+      const { signal, ...rest } = options ?? {}
+      return JSON.stringify([kind, type, id, rest, params])
     }
-    return records as InstanceType<T>[]
-  }
 
-  async function findAll<T extends typeof Model>(ctor: T, options?: FetchOptions, params?: FetchParams) {
-    const type = getModelType(ctor)
-    const doc = await _fetcher.fetchDocument(type, undefined, options, params)
-    const resources = doc.data as JsonApiResource[]
-    const records = resourcesToRecords(ctor, resources, doc.included)
-    return { doc, records }
-  }
+    /**
+     * Share a request between identical queries in flight
+     *
+     * The shared request is aborted only when the signals of all callers waiting for it have been aborted.
+     */
+    function dedupe(
+      key: string,
+      signal: AbortSignal | undefined,
+      request: (signal: AbortSignal) => Promise<JsonApiDocument>,
+    ): Promise<JsonApiDocument> {
+      let entry = inFlight.get(key)
+      if (!entry) {
+        const controller = new AbortController()
+        const created = { promise: request(controller.signal), controller, waiting: 0 }
+        created.promise
+          .finally(() => {
+            if (inFlight.get(key) === created) inFlight.delete(key)
+          })
+          .catch(() => {})
+        inFlight.set(key, created)
+        entry = created
+      }
+      const current = entry
+      current.waiting++
+      if (!signal) return current.promise
+      return new Promise((resolve, reject) => {
+        const onAbort = () => {
+          if (--current.waiting === 0) {
+            // NOTE: remove before aborting so that identical queries made from now on start a new request
+            if (inFlight.get(key) === current) inFlight.delete(key)
+            current.controller.abort(signal.reason)
+          }
+          reject(signal.reason)
+        }
+        if (signal.aborted) return onAbort()
+        signal.addEventListener('abort', onAbort, { once: true })
+        current.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+      })
+    }
 
-  async function findRecord<T extends typeof Model>(ctor: T, id: string, options?: FetchOptions, params?: FetchParams) {
-    const type = getModelType(ctor)
-    const doc = await _fetcher.fetchDocument(type, id, options, params)
-    const resource = doc.data as JsonApiResource
-    const records = resourcesToRecords(ctor, [resource], doc.included)
-    const record = records[0]
-    if (!record) throw new Error(`Record with id ${id} not found`)
-    return record as InstanceType<T>
-  }
+    /**
+     * Serve query results from the cache according to the cache policy of the model
+     * @param id the id if the query is for a single record
+     * @param run function to run the query, signal is omitted when revalidating in the background
+     */
+    async function cachedQuery<R extends Model | FindAllResult<Model>>(
+      ctor: typeof Model,
+      key: string,
+      id: string | undefined,
+      run: (signal?: AbortSignal) => Promise<R>,
+      signal?: AbortSignal,
+    ): Promise<R> {
+      const policy = cachePolicies.get(ctor) ?? config.cache
+      if (!policy) return run(signal)
+      const type = getModelType(ctor)
+      async function update(signal?: AbortSignal) {
+        const result = await run(signal)
+        const ids = new Set(result instanceof Model ? [result.id] : result.records.map((r) => r.id))
+        queryCache.set(key, { time: Date.now(), result, type, id, ids })
+        return result
+      }
+      const entry = queryCache.get(key)
+      if (entry) {
+        const age = Date.now() - entry.time
+        if (age < policy.maxAge) return entry.result as R
+        if (age < policy.maxAge + (policy.staleWhileRevalidate ?? 0)) {
+          // NOTE: errors when revalidating in the background are ignored, stale result is kept
+          update().catch(() => {})
+          return entry.result as R
+        }
+      }
+      return update(signal)
+    }
 
-  async function findRelated(record: Model, name: string, options?: FetchOptions, params?: FetchParams) {
-    const ctor = record.constructor as typeof Model
-    const type = getModelType(ctor)
-    const rels = relsRegistry.get(ctor)
-    if (!rels) throw new Error(`Model ${ctor.name} has no relationships`)
-    const rel = rels[name]
-    if (!rel) throw new Error(`Has many relationship ${name} not defined`)
-    if (rel.type === RelationshipType.BelongsTo) {
-      const doc = await _fetcher.fetchBelongsTo(type, record.id, name, options, params)
-      const related = doc.data as JsonApiResource
-      const relatedRecord = internalCreateRecord(rel.ctor, related.id, related.attributes)
-      record[name] = relatedRecord
+    function invalidate(ctor: typeof Model | string, id?: string) {
+      const type = typeof ctor === 'string' ? ctor : getModelType(ctor)
+      for (const [key, entry] of queryCache)
+        if (entry.type === type && (id === undefined || entry.id === id || entry.ids.has(id))) queryCache.delete(key)
+    }
+
+    /**
+     * Invalidate cached collection queries of a type, e.g. when a record has been created
+     */
+    function invalidateCollections(type: string) {
+      for (const [key, entry] of queryCache) if (entry.type === type && entry.id === undefined) queryCache.delete(key)
+    }
+
+    async function findAll<T extends typeof Model>(
+      ctor: T,
+      options?: FetchOptions<InstanceType<T>>,
+      params?: FetchParams,
+    ) {
+      const type = getModelType(ctor)
+      const key = queryKey('all', type, undefined, options, params)
+      return cachedQuery(
+        ctor,
+        key,
+        undefined,
+        async (signal) => {
+          const doc = await dedupe(key, signal, (signal) =>
+            _fetcher.fetchDocument(type, undefined, toServerOptions({ ...options, signal }), params),
+          )
+          return toFindAllResult(ctor, doc, options)
+        },
+        options?.signal,
+      )
+    }
+
+    /**
+     * @param options options the document was requested with, timeout and retry are also used to fetch other pages
+     */
+    function toFindAllResult<T extends typeof Model>(
+      ctor: T,
+      doc: JsonApiDocument,
+      options: FetchOptions = {},
+    ): FindAllResult<InstanceType<T>> {
+      const resources = doc.data as JsonApiResource[]
+      const records = resourcesToRecords(ctor, resources, doc.included, options.fields)
+      // NOTE: the signal is not used as results may be cached and shared with callers that did not abort
+      const { timeout, retry } = options
+      return createFindAllResult(doc, records, async (url) =>
+        toFindAllResult(ctor, await _fetcher.fetchLink(url, { timeout, retry }), options),
+      )
+    }
+
+    async function findRecord<T extends typeof Model>(
+      ctor: T,
+      id: string,
+      options?: FetchOptions<InstanceType<T>>,
+      params?: FetchParams,
+    ) {
+      const type = getModelType(ctor)
+      const key = queryKey('record', type, id, options, params)
+      return cachedQuery(
+        ctor,
+        key,
+        id,
+        async (signal) => {
+          const doc = await dedupe(key, signal, (signal) =>
+            _fetcher.fetchDocument(type, id, toServerOptions({ ...options, signal }), params),
+          )
+          const resource = doc.data as JsonApiResource
+          const records = resourcesToRecords(ctor, [resource], doc.included, options?.fields)
+          const record = records[0]
+          if (!record) throw new Error(`Record with id ${id} not found`)
+          return record as InstanceType<T>
+        },
+        options?.signal,
+      )
+    }
+
+    async function completeRecord<T extends Model>(record: T, names?: string[], options?: RequestOptions) {
+      const missing = names?.filter((name) => !record.isFieldLoaded(name))
+      if (missing ? missing.length === 0 : record.isComplete) return record
+      const ctor = record.constructor as typeof Model
+      const type = getModelType(ctor)
+      const fetchOptions: FetchOptions = missing ? { ...options, fields: { [type]: missing } } : { ...options }
+      const doc = await dedupe(queryKey('record', type, record.id, fetchOptions), options?.signal, (signal) =>
+        _fetcher.fetchDocument(type, record.id, toServerOptions({ ...fetchOptions, signal })),
+      )
+      resourcesToRecords(ctor, [doc.data as JsonApiResource], doc.included, fetchOptions.fields)
+      return record
+    }
+
+    async function findRelated(record: Model, name: string, options?: FetchOptions, params?: FetchParams) {
+      const ctor = record.constructor as typeof Model
+      const type = getModelType(ctor)
+      const rel = getRelationship(ctor, name)
+      const kind = rel.type === RelationshipType.BelongsTo ? 'belongsTo' : 'hasMany'
+      // NOTE: prefer the related link provided by the server over the conventional path
+      const href = linkHref(record.relationshipLinks(name)?.related)
+      const doc = await dedupe(
+        queryKey(`${kind}:${name}`, type, record.id, options, params),
+        options?.signal,
+        (signal) => {
+          const serverOptions = toServerOptions({ ...options, signal })
+          if (href) return _fetcher.fetchLink(href, serverOptions, params)
+          if (kind === 'belongsTo')
+            return _fetcher.fetchBelongsTo(type, record.id, denormalize(name), serverOptions, params)
+          return _fetcher.fetchHasMany(type, record.id, denormalize(name), serverOptions, params)
+        },
+      )
+      const related = ([] as (JsonApiResource | null)[]).concat(doc.data ?? []).filter((r) => !!r)
+      for (const resource of related)
+        if (!acceptsType(rel, resource.type))
+          throw new Error(`Relationship ${name} cannot refer to type ${resource.type}`)
+      const relatedRecords = resourcesToRecords(Model, related, doc.included, options?.fields)
+      fieldsOf(record)[name] = rel.type === RelationshipType.HasMany ? relatedRecords : (relatedRecords[0] ?? null)
+      snapshot(record, [name])
       return doc
     }
-    const doc = await _fetcher.fetchHasMany(type, record.id, name, options, params)
-    const related =
-      rel.type === RelationshipType.HasMany ? (doc.data as JsonApiResource[]) : [doc.data as JsonApiResource]
-    const relatedRecords = related.map((r) => internalCreateRecord(rel.ctor, r.id, r.attributes))
-    record[name] = rel.type === RelationshipType.HasMany ? relatedRecords : relatedRecords[0]
-    return doc
-  }
 
-  async function saveRecord(record: Model) {
-    const type = getModelType(record.constructor as typeof Model)
-    const resource: JsonApiResource = {
-      id: record.id,
-      type,
-      attributes: record,
+    /**
+     * @param changedOnly only include attributes and relationships changed since the record was loaded
+     * @param identify get the identifier of related records
+     */
+    function serializeRecord(record: Model, changedOnly = false, identify = toIdentifier) {
+      const ctor = record.constructor as typeof Model
+      const rels = relsRegistry.get(ctor) ?? {}
+      const transforms = transformsRegistry.get(ctor) ?? {}
+      const attributes: Record<string, unknown> = {}
+      const relationships: Record<string, JsonApiRelationship> = {}
+      const changed =
+        changedOnly && !record.isNew
+          ? [...Object.keys(record.changedAttributes()), ...record.changedRelationships()]
+          : undefined
+      for (const [key, value] of Object.entries(record)) {
+        if (key === 'id' || (changed && !changed.includes(key))) continue
+        // NOTE: unset attributes are not sent unless changed from a loaded value
+        if (value === undefined && !changed) continue
+        const rel = rels[key]
+        const name = denormalize(key)
+        if (!rel) attributes[name] = transforms[key] ? transforms[key].serialize(value ?? null) : (value ?? null)
+        else if (rel.type === RelationshipType.HasMany) relationships[name] = { data: (value as Model[]).map(identify) }
+        else relationships[name] = { data: value ? identify(value as Model) : null }
+      }
+      const resource: JsonApiResource = { id: record.id, type: getModelType(ctor), attributes }
+      if (Object.keys(relationships).length > 0) resource.relationships = relationships
+      return resource
+    }
+
+    function toIdentifier(record: Model): JsonApiResourceIdentifier {
+      return { type: getModelType(record.constructor as typeof Model), id: record.id }
+    }
+
+    function isCached(record: Model) {
+      const ctor = record.constructor as typeof Model
+      const cached = records.value[getModelType(ctor)]?.[record.id]
+      return !!cached && toRaw(cached) === toRaw(record)
+    }
+
+    /**
+     * Apply a write response document to a cached record
+     */
+    function applyDocument<T extends Model>(record: T, doc: JsonApiDocument) {
+      const resource = doc.data as JsonApiResource | undefined
+      if (resource) resourcesToRecords(record.constructor as typeof Model, [resource], doc.included)
+      return peekRecord(record.constructor as typeof Model, record.id) as T
+    }
+
+    /**
+     * Relationships of cached records that refer to a record
+     * @returns tuples of the referring record and relationship name
+     */
+    function findReferences(record: Model) {
+      const raw = toRaw(record)
+      const refers = (value: unknown) => !!value && toRaw(value) === raw
+      const references: [Model, string][] = []
+      for (const cache of Object.values(records.value))
+        for (const other of Object.values(cache))
+          for (const name of Object.keys(relsRegistry.get(other.constructor as typeof Model) ?? {})) {
+            const value = fieldsOf(other)[name]
+            if (Array.isArray(value) ? value.some(refers) : refers(value)) references.push([other, name])
+          }
+      return references
+    }
+
+    /**
+     * Remove a deleted record from the cache and from relationships of cached records
+     */
+    function evict(record: Model) {
+      const type = getModelType(record.constructor as typeof Model)
+      const raw = toRaw(record)
+      if (records.value[type]) delete records.value[type][record.id]
+      for (const [other, name] of findReferences(record)) {
+        const value = fieldsOf(other)[name]
+        fieldsOf(other)[name] = Array.isArray(value) ? value.filter((r) => toRaw(r) !== raw) : null
+        snapshot(other, [name])
+      }
+    }
+
+    /**
+     * Apply a change to records once a request succeeds, or before it is made if optimistic
+     *
+     * If an optimistic request fails the fields and snapshots of the affected records are restored.
+     * @param affected records whose fields are changed by apply
+     * @param revert revert changes other than to fields of the affected records, e.g. to the cache
+     */
+    async function applyWrite(
+      options: WriteOptions,
+      affected: Model[],
+      apply: () => void,
+      request: () => Promise<unknown>,
+      revert?: () => void,
+    ) {
+      if (!options.optimistic) {
+        await request()
+        apply()
+        return
+      }
+      const states = affected.map(captureState)
+      apply()
+      try {
+        await request()
+      } catch (error) {
+        for (const state of states) restoreState(state)
+        revert?.()
+        throw error
+      }
+    }
+
+    const persistence = config.persistence === true ? indexedDbAdapter(name) : config.persistence
+    const pendingWrites = ref<PendingWrite[]>([])
+    let persisting = Promise.resolve()
+    let scheduledSave: ReturnType<typeof setTimeout> | undefined
+
+    function persist() {
+      if (!persistence) return Promise.resolve()
+      clearTimeout(scheduledSave)
+      scheduledSave = undefined
+      const save = () => persistence.save({ state: dehydrate(), queue: clone(toRaw(pendingWrites.value)) })
+      // NOTE: saves are made one at a time, a failed save does not prevent later saves
+      persisting = persisting.catch(() => {}).then(save)
+      return persisting
+    }
+
+    // NOTE: changes are saved in batches, e.g. not on every keystroke in a form bound to a record
+    function schedulePersist() {
+      if (scheduledSave !== undefined) return
+      // NOTE: errors when saving in the background are ignored, state is saved again on the next change
+      scheduledSave = setTimeout(() => persist().catch(() => {}), persistDelay)
+    }
+
+    if (persistence) watch(records, schedulePersist, { deep: true })
+
+    async function restore() {
+      const persisted = await persistence?.load()
+      if (!persisted) return
+      hydrate(persisted.state)
+      pendingWrites.value = persisted.queue
+    }
+
+    /**
+     * Make a write request, or queue the write if the server cannot be reached and persistence is configured
+     * @param write get the write to queue
+     * @returns the response or undefined if the write was queued
+     */
+    async function sendOrQueue<R>(request: () => Promise<R>, write: () => PendingWrite) {
+      // NOTE: writes are queued while other writes are pending to keep their order
+      if (!persistence || pendingWrites.value.length === 0) {
+        try {
+          return { response: await request() }
+        } catch (error) {
+          if (!persistence || !isNetworkError(error)) throw error
+        }
+      }
+      pendingWrites.value.push(write())
+      await persist()
+    }
+
+    /**
+     * Replace the temporary id of a record created offline in the cache and in pending writes
+     */
+    function remapId(type: string, from: string, to: string) {
+      const cache = getTypeCache(type)
+      const record = cache[from]
+      if (record) {
+        delete cache[from]
+        record.id = to
+        cache[to] = record
+      }
+      const remap = (rid: JsonApiResourceIdentifier) =>
+        rid.type === type && rid.id === from ? { ...rid, id: to } : rid
+      for (const write of pendingWrites.value) {
+        if (write.type === type && write.id === from) {
+          write.id = to
+          write.local = false
+          if (write.resource) write.resource.id = to
+        }
+        for (const rel of Object.values(write.resource?.relationships ?? {}))
+          if (rel.data) rel.data = Array.isArray(rel.data) ? rel.data.map(remap) : remap(rel.data)
+      }
+    }
+
+    async function replay({ op, type, id, local, resource }: PendingWrite) {
+      if (op === 'delete') return _fetcher.delete(type, id)
+      if (!resource) throw new Error(`Pending ${op} of ${type} ${id} has no resource`)
+      const doc =
+        op === 'update'
+          ? await _fetcher.patch(resource)
+          : await _fetcher.post(local ? { ...resource, id: undefined } : resource)
+      const created = doc.data as JsonApiResource | undefined
+      if (op === 'create') {
+        if (local && !created) throw new Error(`Created record of type ${type} was not assigned an id`)
+        if (local && created) remapId(type, id, created.id)
+        invalidateCollections(type)
+      }
+      const record = records.value[type]?.[created?.id ?? id]
+      if (record) snapshot(applyDocument(record, doc))
+    }
+
+    async function sync() {
+      const result: SyncResult = { synced: 0, conflicts: [], pending: 0 }
+      while (pendingWrites.value.length > 0) {
+        const write = pendingWrites.value[0]
+        try {
+          await replay(write)
+          result.synced++
+        } catch (error) {
+          if (isNetworkError(error)) {
+            // NOTE: stop when the network fails again, the write is replayed on the next sync
+            if (isOffline()) break
+            // NOTE: a write that keeps failing while online, e.g. blocked by CORS, would block the queue forever
+            write.attempts = (write.attempts ?? 0) + 1
+            if (write.attempts < (config.maxSyncAttempts ?? 5)) {
+              await persist()
+              break
+            }
+          } else if (!(error instanceof JsonApiResponseError)) throw error
+          result.conflicts.push({ write: clone(toRaw(write)), error: error as Error })
+        }
+        pendingWrites.value.shift()
+        await persist()
+      }
+      result.pending = pendingWrites.value.length
+      return result
+    }
+
+    async function insertRecord<T extends Model>(record: T, options: WriteOptions = {}) {
+      const { id, ...resource } = serializeRecord(record)
+      const cache = getTypeCache(resource.type)
+      // NOTE: only records with a client-generated id can be cached before the server responds
+      const optimistic = options.optimistic && !!id && !cache[id]
+      if (optimistic) cache[id] = record
+      let sent: { response: JsonApiDocument } | undefined
+      try {
+        sent = await sendOrQueue(
+          () => _fetcher.post(id ? { id, ...resource } : resource),
+          () => {
+            // NOTE: records created offline get a temporary id until the write is synced
+            const local = !record.id
+            if (local) record.id = `local-${crypto.randomUUID()}`
+            return { op: 'create', type: resource.type, id: record.id, local, resource: serializeRecord(record) }
+          },
+        )
+      } catch (error) {
+        if (optimistic) delete cache[id]
+        throw error
+      }
+      if (!sent) {
+        cache[record.id] = record
+        const saved = peekRecord(record.constructor as typeof Model, record.id) as T
+        snapshot(saved)
+        return saved
+      }
+      const doc = sent.response
+      const created = doc.data as JsonApiResource | undefined
+      if (created) record.id = created.id
+      if (!record.id) throw new Error(`Created record of type ${resource.type} was not assigned an id`)
+      cache[record.id] = record
+      invalidateCollections(resource.type)
+      const saved = applyDocument(record, doc)
+      snapshot(saved)
+      return saved
+    }
+
+    async function createRecord<T extends typeof Model>(
+      ctor: T,
+      properties: Partial<InstanceType<T>> & { id?: string },
+      options?: WriteOptions,
+    ) {
+      const record: Model = new ctor(properties.id ?? '')
+      for (const [key, value] of Object.entries(properties)) if (value !== undefined) fieldsOf(record)[key] = value
+      return insertRecord(record as InstanceType<T>, options)
+    }
+
+    async function updateRecord<T extends Model>(record: T, options: WriteOptions = {}) {
+      if (!record.isDirty) return record
+      const resource = serializeRecord(record, true)
+      let sent: { response: JsonApiDocument } | undefined
+      try {
+        sent = await sendOrQueue(
+          () => _fetcher.patch(resource),
+          () => ({ op: 'update', type: resource.type, id: record.id, resource }),
+        )
+      } catch (error) {
+        // NOTE: changes are already applied to the record, so optimistic updates only need to revert on failure
+        if (options.optimistic) record.rollback()
+        throw error
+      }
+      const saved = (sent && applyDocument(record, sent.response)) ?? record
+      snapshot(saved)
+      return saved
+    }
+
+    async function deleteRecord(record: Model, options: WriteOptions = {}) {
+      const type = getModelType(record.constructor as typeof Model)
+      const cached = isCached(record)
+      await applyWrite(
+        options,
+        [record, ...findReferences(record).map(([other]) => other)],
+        () => evict(record),
+        () =>
+          sendOrQueue(
+            () => _fetcher.delete(type, record.id),
+            () => ({ op: 'delete', type, id: record.id }),
+          ),
+        () => {
+          if (cached) getTypeCache(type)[record.id] = record
+        },
+      )
+      invalidate(type, record.id)
+    }
+
+    async function saveRecord<T extends Model>(record: T, options?: WriteOptions) {
+      return isCached(record) ? updateRecord(record, options) : insertRecord(record, options)
+    }
+
+    function toRelatedIdentifiers(rel: Relationship, name: string, related: Model[], identify = toIdentifier) {
+      const rids = related.map(identify)
+      const invalid = rids.find((rid) => !acceptsType(rel, rid.type))
+      if (invalid) throw new Error(`Relationship ${name} cannot refer to type ${invalid.type}`)
+      return rids
+    }
+
+    function getToManyRelationship(record: Model, name: string) {
+      const rel = getRelationship(record.constructor as typeof Model, name)
+      if (rel.type !== RelationshipType.HasMany) throw new Error(`Relationship ${name} is not a to-many relationship`)
+      return rel
+    }
+
+    /**
+     * Validate related records and get the linkage replacing a relationship
+     */
+    function toLinkage(record: Model, name: string, related: Model | Model[] | null, identify = toIdentifier) {
+      const rel = getRelationship(record.constructor as typeof Model, name)
+      const hasMany = rel.type === RelationshipType.HasMany
+      if (hasMany !== Array.isArray(related))
+        throw new Error(`Relationship ${name} requires ${hasMany ? 'an array of records' : 'a single record or null'}`)
+      const rids = toRelatedIdentifiers(rel, name, related ? ([] as Model[]).concat(related) : [], identify)
+      return hasMany ? rids : (rids[0] ?? null)
+    }
+
+    /**
+     * Apply a relationship mutation to the record once it has been accepted by the server
+     */
+    function applyRelationship(
+      record: Model,
+      name: string,
+      op: 'set' | 'add' | 'remove',
+      related: Model | Model[] | null,
+    ) {
+      if (op === 'set') fieldsOf(record)[name] = Array.isArray(related) ? [...related] : related
+      else {
+        const current = (fieldsOf(record)[name] as Model[] | undefined) ?? []
+        const keys = new Set(current.map((c) => identityKey(toIdentifier(c))))
+        const memberKeys = new Set((related as Model[]).map((r) => identityKey(toIdentifier(r))))
+        fieldsOf(record)[name] =
+          op === 'add'
+            ? [...current, ...(related as Model[]).filter((r) => !keys.has(identityKey(toIdentifier(r))))]
+            : current.filter((c) => !memberKeys.has(identityKey(toIdentifier(c))))
+      }
+      snapshot(record, [name])
+    }
+
+    async function setRelationship(
+      record: Model,
+      name: string,
+      related: Model | Model[] | null,
+      options: WriteOptions = {},
+    ) {
+      const type = getModelType(record.constructor as typeof Model)
+      const data = toLinkage(record, name, related)
+      await applyWrite(
+        options,
+        [record],
+        () => applyRelationship(record, name, 'set', related),
+        () => _fetcher.patchRelationship(type, record.id, denormalize(name), data),
+      )
+    }
+
+    async function addToRelationship(record: Model, name: string, related: Model[], options: WriteOptions = {}) {
+      const type = getModelType(record.constructor as typeof Model)
+      const data = toRelatedIdentifiers(getToManyRelationship(record, name), name, related)
+      await applyWrite(
+        options,
+        [record],
+        () => applyRelationship(record, name, 'add', related),
+        () => _fetcher.postRelationship(type, record.id, denormalize(name), data),
+      )
+    }
+
+    async function removeFromRelationship(record: Model, name: string, related: Model[], options: WriteOptions = {}) {
+      const type = getModelType(record.constructor as typeof Model)
+      const data = toRelatedIdentifiers(getToManyRelationship(record, name), name, related)
+      await applyWrite(
+        options,
+        [record],
+        () => applyRelationship(record, name, 'remove', related),
+        () => _fetcher.deleteRelationship(type, record.id, denormalize(name), data),
+      )
+    }
+
+    const changeListeners = new Set<ChangeListener>()
+
+    function onChange(listener: ChangeListener) {
+      changeListeners.add(listener)
+      return () => {
+        changeListeners.delete(listener)
+      }
+    }
+
+    function ingest(message: PushMessage) {
+      const events: ChangeEvent[] = []
+      if (config.validation && !('deleted' in message)) checkDocument(message)
+      if ('deleted' in message) {
+        const { type, id } = message.deleted
+        const record = records.value[type]?.[id]
+        // NOTE: deletes of records that are not cached are ignored
+        if (record) {
+          evict(record)
+          invalidate(type, id)
+          events.push({ kind: 'deleted', type, record })
+        }
+      } else {
+        const primary = ([] as JsonApiResource[]).concat(message.data ?? [])
+        const resources = [...primary, ...(message.included ?? [])]
+        // NOTE: stub records count as created as they were not loaded before
+        const created = new Set(resources.filter((r) => !records.value[r.type]?.[r.id]?.isLoaded).map(identityKey))
+        resourcesToRecords(Model, primary, message.included)
+        for (const resource of resources) {
+          const kind = created.has(identityKey(resource)) ? 'created' : 'updated'
+          if (kind === 'created') invalidateCollections(resource.type)
+          events.push({ kind, type: resource.type, record: records.value[resource.type][resource.id] })
+        }
+      }
+      for (const event of events) for (const listener of changeListeners) listener(event)
+      return events
+    }
+
+    function dehydrate(): DehydratedState {
+      // NOTE: stub records are not dehydrated, they are created again from relationship linkage
+      const data = Object.values(records.value).flatMap((typeCache) =>
+        Object.values(typeCache)
+          .filter((record) => record.isLoaded)
+          .map((record) => {
+            const resource = serializeRecord(record)
+            // NOTE: links and meta of relationships are kept, e.g. for findRelated to use the related link
+            const infos = Object.entries(toRaw(record)[relationshipsKey] ?? {})
+            if (infos.length === 0) return resource
+            const relationships = { ...resource.relationships }
+            for (const [name, info] of infos)
+              relationships[denormalize(name)] = { ...relationships[denormalize(name)], ...info }
+            return { ...resource, relationships }
+          }),
+      )
+      const fields: Record<string, Record<string, string[]>> = {}
+      for (const [type, typeCache] of Object.entries(records.value))
+        for (const record of Object.values(typeCache)) {
+          const loaded = toRaw(record)[loadedFieldsKey]
+          if (!record.isLoaded || !loaded) continue
+          fields[type] = { ...fields[type], [record.id]: [...loaded] }
+        }
+      const queries: DehydratedQuery[] = []
+      for (const [key, { time, result, type, id, ids }] of queryCache) {
+        const query: DehydratedQuery = { key, time, type, ids: [...ids] }
+        if (id !== undefined) query.id = id
+        if (!(result instanceof Model)) query.doc = (result as FindAllResult<Model>).doc
+        queries.push(query)
+      }
+      return { data, fields, queries }
+    }
+
+    function hydrate(state: DehydratedState) {
+      resourcesToRecords(Model, state.data)
+      for (const { key, time, type, id, ids, doc } of state.queries) {
+        const result = doc ? toFindAllResult(getModel(type), doc) : id !== undefined && records.value[type]?.[id]
+        // NOTE: queries of records that were not dehydrated are fetched again
+        if (result) queryCache.set(key, { time, result, type, id, ids: new Set(ids) })
+      }
+      // NOTE: restored last, as resolving query documents without their fieldsets marks records complete
+      for (const [type, loadedFields] of Object.entries(state.fields ?? {}))
+        for (const [id, names] of Object.entries(loadedFields)) {
+          const record = records.value[type]?.[id]
+          if (record) record[loadedFieldsKey] = markRaw(new Set(names))
+        }
+    }
+
+    function atomic(): AtomicTransaction {
+      const operations: JsonApiAtomicOperation[] = []
+      // NOTE: reconcilers are called with the result at the same index as their operation
+      const reconcilers: ((result: JsonApiAtomicResult) => void)[] = []
+      const lids = new Map<Model, string>()
+      function identify(record: Model): JsonApiResourceIdentifier {
+        const type = getModelType(record.constructor as typeof Model)
+        const lid = lids.get(toRaw(record))
+        // NOTE: new records without a client-generated id are identified by lid only
+        return lid && !record.id ? ({ type, lid } as JsonApiResourceIdentifier) : { type, id: record.id }
+      }
+      function ref(record: Model, relationship?: string): JsonApiAtomicRef {
+        const { type, id, lid } = identify(record)
+        return {
+          type,
+          ...(lid ? { lid } : { id }),
+          ...(relationship ? { relationship: denormalize(relationship) } : {}),
+        }
+      }
+      function toResource(record: Model, changedOnly = false): JsonApiNewResource {
+        const { id, ...resource } = serializeRecord(record, changedOnly, identify)
+        return id ? { id, ...resource } : { lid: lids.get(toRaw(record)), ...resource }
+      }
+      function queue(operation: JsonApiAtomicOperation, reconcile: (result: JsonApiAtomicResult) => void) {
+        operations.push(operation)
+        reconcilers.push(reconcile)
+      }
+      return {
+        operations,
+        create(ctor, properties) {
+          const record: Model = new ctor(properties.id ?? '')
+          for (const [key, value] of Object.entries(properties)) if (value !== undefined) fieldsOf(record)[key] = value
+          if (!record.id) lids.set(record, `lid-${lids.size + 1}`)
+          const resource = toResource(record)
+          queue({ op: 'add', data: resource }, (result) => {
+            const created = result.data ?? undefined
+            if (created) record.id = created.id
+            if (!record.id) throw new Error(`Created record of type ${resource.type} was not assigned an id`)
+            getTypeCache(resource.type)[record.id] = record
+            invalidateCollections(resource.type)
+            snapshot(applyDocument(record, { data: created }))
+          })
+          // NOTE: same reactive proxy as returned by peekRecord once cached
+          return reactive(record) as InstanceType<typeof ctor>
+        },
+        update(record) {
+          queue({ op: 'update', data: toResource(record, true) }, (result) => {
+            const saved = applyDocument(record, { data: result.data ?? undefined }) ?? record
+            snapshot(saved)
+          })
+        },
+        remove(record) {
+          const { type } = identify(record)
+          queue({ op: 'remove', ref: ref(record) }, () => {
+            evict(record)
+            invalidate(type, record.id)
+          })
+        },
+        setRelationship(record, name, related) {
+          queue({ op: 'update', ref: ref(record, name), data: toLinkage(record, name, related, identify) }, () =>
+            applyRelationship(record, name, 'set', related),
+          )
+        },
+        addToRelationship(record, name, related) {
+          const rel = getToManyRelationship(record, name)
+          const data = toRelatedIdentifiers(rel, name, related, identify)
+          queue({ op: 'add', ref: ref(record, name), data }, () => applyRelationship(record, name, 'add', related))
+        },
+        removeFromRelationship(record, name, related) {
+          const rel = getToManyRelationship(record, name)
+          const data = toRelatedIdentifiers(rel, name, related, identify)
+          queue({ op: 'remove', ref: ref(record, name), data }, () =>
+            applyRelationship(record, name, 'remove', related),
+          )
+        },
+        async commit() {
+          const doc = await _fetcher.atomic(operations)
+          const results = doc['atomic:results'] ?? []
+          reconcilers.forEach((reconcile, index) => reconcile(results[index] ?? {}))
+          return doc
+        },
+      }
     }
-    await _fetcher.post(resource)
-  }
 
-  return defineStore(name, () => {
     return {
+      records,
       modelRegistry,
       relsRegistry,
+      peekRecord,
+      peekAll,
       findAll,
       findRecord,
+      completeRecord,
       findRelated,
+      createRecord,
+      updateRecord,
+      deleteRecord,
       saveRecord,
+      invalidate,
+      setRelationship,
+      addToRelationship,
+      removeFromRelationship,
+      atomic,
+      dehydrate,
+      hydrate,
+      pendingWrites,
+      restore,
+      persist,
+      sync,
+      ingest,
+      onChange,
     }
   }) as unknown as PiniaJsonApiStoreUseFunction
 }
@@ -0,0 +1,98 @@
+/**
+ * Names of non-function fields of a model
+ */
+export type ModelField<M> = {
+  [K in keyof M]: M[K] extends (...args: never[]) => unknown ? never : K
+}[keyof M] &
+  string
+
+export type FilterPrimitive = string | number | boolean | null
+
+export type FilterValue = FilterPrimitive | FilterPrimitive[] | { [key: string]: FilterValue | undefined }
+
+/**
+ * Structured filter where keys are model fields or dot separated paths and nested objects are nested filter paths
+ */
+export type Filter<M = Record<string, unknown>> = {
+  [K in ModelField<M> | `${ModelField<M>}.${string}`]?: FilterValue
+}
+
+export type SortDirection = 'asc' | 'desc'
+
+/**
+ * Sort entry as a field name optionally prefixed with - for descending or as an object with direction
+ */
+export type SortOption<M = Record<string, unknown>> =
+  | ModelField<M>
+  | `-${ModelField<M>}`
+  | `${ModelField<M>}.${string}`
+  | `-${ModelField<M>}.${string}`
+  | { field: ModelField<M> | `${ModelField<M>}.${string}`; direction?: SortDirection }
+
+/**
+ * Strategy to serialize a structured filter into query parameters
+ * @returns list of parameter name and value pairs
+ */
+export type FilterStrategy = (filter: Filter) => [string, string][]
+
+function filterValueToString(value: FilterPrimitive | FilterPrimitive[]): string {
+  if (Array.isArray(value)) return value.map(filterValueToString).join(',')
+  return value === null ? '' : value.toString()
+}
+
+function flattenFilter(filter: Filter, path: string[] = []): [string[], FilterPrimitive | FilterPrimitive[]][] {
+  const entries: [string[], FilterPrimitive | FilterPrimitive[]][] = []
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue
+    if (value !== null && typeof value === 'object' && !Array.isArray(value))
+      entries.push(...flattenFilter(value, [...path, key]))
+    else entries.push([[...path, key], value])
+  }
+  return entries
+}
+
+/**
+ * Serializes nested filters as dot separated paths, e.g. filter[author.name]=value
+ */
+export const dotFilterStrategy: FilterStrategy = (filter) =>
+  flattenFilter(filter).map(([path, value]) => [`filter[${path.join('.')}]`, filterValueToString(value)])
+
+/**
+ * Serializes nested filters as nested brackets, e.g. filter[author][name]=value or filter[age][gt]=18
+ */
+export const bracketFilterStrategy: FilterStrategy = (filter) =>
+  flattenFilter(filter).map(([path, value]) => [
+    `filter${path.map((p) => `[${p}]`).join('')}`,
+    filterValueToString(value),
+  ])
+
+/**
+ * Serialize sort entries into the value of the sort query parameter
+ */
+export function serializeSort(sort: SortOption[]) {
+  return sort.map((s) => (typeof s === 'string' ? s : `${s.direction === 'desc' ? '-' : ''}${s.field}`)).join(',')
+}
+
+/**
+ * Convert field names in a filter
+ */
+export function mapFilterKeys(filter: Filter, fn: (name: string) => string): Filter {
+  const mapped: Filter = {}
+  for (const [key, value] of Object.entries(filter)) {
+    const name = key.split('.').map(fn).join('.')
+    mapped[name] =
+      value !== null && typeof value === 'object' && !Array.isArray(value) ? mapFilterKeys(value, fn) : value
+  }
+  return mapped
+}
+
+/**
+ * Convert field names in sort entries
+ */
+export function mapSortKeys(sort: SortOption[], fn: (name: string) => string): SortOption[] {
+  const map = (field: string) => field.split('.').map(fn).join('.')
+  return sort.map((s) => {
+    if (typeof s !== 'string') return { ...s, field: map(s.field) }
+    return s.startsWith('-') ? `-${map(s.slice(1))}` : map(s)
+  })
+}
@@ -0,0 +1,73 @@
+import type { JsonApiDocument, JsonApiResourceIdentifier } from './json-api'
+import type { Model, PiniaJsonApiStore } from './pinia-json-api'
+
+/**
+ * Notice that a resource has been deleted on the server
+ */
+export interface DeleteNotice {
+  deleted: JsonApiResourceIdentifier
+}
+
+/**
+ * Message pushed by the server, a document with created or updated resources or a delete notice
+ */
+export type PushMessage = JsonApiDocument | DeleteNotice
+
+/**
+ * Change to a cached record made by ingesting a pushed message
+ */
+export interface ChangeEvent {
+  kind: 'created' | 'updated' | 'deleted'
+  type: string
+  record: Model
+}
+
+export type ChangeListener = (event: ChangeEvent) => void
+
+/**
+ * Stream of messages, satisfied by EventSource and WebSocket
+ */
+export interface MessageStream {
+  addEventListener(type: string, listener: (event: Event) => void): void
+  removeEventListener(type: string, listener: (event: Event) => void): void
+  close(): void
+}
+
+export interface StreamOptions {
+  /**
+   * Event types carrying messages, defaults to message. Server-Sent Events can use named events.
+   */
+  events?: string[]
+  /**
+   * Parse the data of an event into a message, defaults to JSON.parse
+   */
+  parse?: (data: string) => PushMessage
+  /**
+   * Called when a message cannot be parsed or ingested, by default such messages are ignored
+   */
+  onError?: (error: unknown, event: MessageEvent) => void
+}
+
+/**
+ * Ingest messages from an EventSource or WebSocket into a store
+ * @returns function that stops listening and closes the stream
+ */
+export function connectStream(
+  store: Pick<PiniaJsonApiStore, 'ingest'>,
+  stream: MessageStream,
+  options: StreamOptions = {},
+) {
+  const { events = ['message'], parse = JSON.parse, onError } = options
+  const listener = (event: Event) => {
+    try {
+      store.ingest(parse((event as MessageEvent).data))
+    } catch (error) {
+      onError?.(error, event as MessageEvent)
+    }
+  }
+  for (const type of events) stream.addEventListener(type, listener)
+  return () => {
+    for (const type of events) stream.removeEventListener(type, listener)
+    stream.close()
+  }
+}
@@ -0,0 +1,80 @@
+import { clone } from './util'
+
+/**
+ * Transform between a JSON:API attribute value and a model attribute value
+ */
+export interface Transform<T = unknown, S = unknown> {
+  /**
+   * Convert a value from a resource attribute to a model attribute value
+   */
+  deserialize(value: S): T
+  /**
+   * Convert a model attribute value to a resource attribute value
+   */
+  serialize(value: T): S
+}
+
+/**
+ * Transforms ISO 8601 strings to Date
+ */
+export const dateTransform: Transform<Date | null | undefined, string | null | undefined> = {
+  deserialize: (value) => {
+    if (value === null || value === undefined) return value
+    const date = new Date(value)
+    if (Number.isNaN(date.getTime())) throw new Error(`Invalid date ${value}`)
+    return date
+  },
+  serialize: (value) => (value ? value.toISOString() : value),
+}
+
+/**
+ * Transforms numbers or numeric strings (e.g. decimals) to number
+ */
+export const numberTransform: Transform<number | null | undefined, string | number | null | undefined> = {
+  deserialize: (value) => {
+    if (value === null || value === undefined || value === '') return value === '' ? null : value
+    const number = Number(value)
+    if (Number.isNaN(number)) throw new Error(`Invalid number ${value}`)
+    return number
+  },
+  serialize: (value) => value,
+}
+
+/**
+ * Transforms booleans or boolean like strings and numbers to boolean
+ */
+export const booleanTransform: Transform<boolean | null | undefined, unknown> = {
+  deserialize: (value) => {
+    if (value === null || value === undefined) return value
+    if (typeof value === 'string') return ['true', '1', 'yes'].includes(value.toLowerCase())
+    return Boolean(value)
+  },
+  serialize: (value) => value,
+}
+
+/**
+ * Transform that verifies that a value is one of the given values
+ */
+export function enumTransform<E extends string | number>(
+  values: readonly E[],
+): Transform<E | null | undefined, E | null | undefined> {
+  function verify(value: E | null | undefined) {
+    if (value !== null && value !== undefined && !values.includes(value))
+      throw new Error(`Invalid value ${value}, expected one of ${values.join(', ')}`)
+    return value
+  }
+  return { deserialize: verify, serialize: verify }
+}
+
+/**
+ * Transform for nested JSON objects, parsing them if given as JSON strings
+ */
+export function jsonTransform<T extends object>(): Transform<T | null | undefined, unknown> {
+  return {
+    deserialize: (value) => {
+      if (value === null || value === undefined) return value
+      return (typeof value === 'string' ? JSON.parse(value) : clone(value)) as T
+    },
+    serialize: (value) => clone(value),
+  }
+}
@@ -1,6 +1,49 @@
 /**
- * Convert str from kebab-case to camelCase
+ * Convert str from kebab-case, or snake_case with separator _, to camelCase
  */
-export function camel(str: string) {
-  return str.replace(/[-][a-z\u00E0-\u00F6\u00F8-\u00FE]/g, (match) => match.slice(1).toUpperCase())
+export function camel(str: string, separator: '-' | '_' = '-') {
+  const pattern = new RegExp(`[${separator}][a-z\u00E0-\u00F6\u00F8-\u00FE]`, 'g')
+  return str.replace(pattern, (match) => match.slice(1).toUpperCase())
+}
+
+/**
+ * Convert str from camelCase to kebab-case
+ */
+export function kebab(str: string) {
+  return str.replace(/[A-Z\u00C0-\u00D6\u00D8-\u00DE]/g, (match) => `-${match.toLowerCase()}`)
+}
+
+/**
+ * Convert str from camelCase to snake_case
+ */
+export function snake(str: string) {
+  return str.replace(/[A-Z\u00C0-\u00D6\u00D8-\u00DE]/g, (match) => `_${match.toLowerCase()}`)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+}
+
+/**
+ * Deep equality for attribute values (primitives, dates, arrays and plain objects)
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => isEqual(v, b[i]))
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length && keys.every((k) => isEqual(a[k], b[k]))
+  }
+  return false
+}
+
+/**
+ * Deep clone for attribute values (primitives, dates, arrays and plain objects)
+ */
+export function clone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T
+  if (Array.isArray(value)) return value.map(clone) as T
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)])) as T
+  return value
 }
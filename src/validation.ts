@@ -0,0 +1,266 @@
+import type { JsonApiAtomicOperation } from './json-api'
+import type { JsonApiFetcher } from './json-api-fetcher'
+
+export type AttributeType = 'string' | 'number' | 'boolean' | 'object' | 'array'
+
+/**
+ * Expected type of an attribute or a predicate for other checks, null is always accepted
+ */
+export type AttributeCheck = AttributeType | ((value: unknown) => boolean)
+
+/**
+ * Attribute checks keyed by attribute name
+ */
+export type AttributeSchema = Record<string, AttributeCheck>
+
+/**
+ * Expected members of resources of a type
+ */
+export interface ResourceSchema {
+  attributes?: AttributeSchema
+  /**
+   * Names of the relationships of the type, other relationships are reported
+   */
+  relationships?: string[]
+}
+
+export interface ValidationOptions {
+  /**
+   * Schemas keyed by resource type using member names as in the document, resources of other types are reported
+   */
+  types?: Record<string, ResourceSchema>
+}
+
+/**
+ * Violation of a JSON:API structural rule or an attribute schema
+ */
+export interface ValidationIssue {
+  /**
+   * JSON Pointer to the offending member of the document
+   */
+  pointer: string
+  message: string
+}
+
+/**
+ * Error thrown in strict validation mode when a document is invalid
+ */
+export class JsonApiValidationError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(`Invalid JSON:API document: ${issues.map((i) => `${i.pointer || '/'} ${i.message}`).join('; ')}`)
+    this.name = 'JsonApiValidationError'
+  }
+}
+
+const topLevelMembers = ['data', 'errors', 'meta', 'jsonapi', 'links', 'included']
+
+// NOTE: allowed characters of JSON:API 1.1 member names, -, _ and space only inside names
+const memberName = /^[a-zA-Z0-9\u0080-\uFFFF](?:[a-zA-Z0-9\u0080-\uFFFF_\- ]*[a-zA-Z0-9\u0080-\uFFFF])?$/
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function escapePointer(name: string) {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function matchesCheck(value: unknown, check: AttributeCheck) {
+  if (typeof check === 'function') return check(value)
+  if (check === 'array') return Array.isArray(value)
+  if (check === 'object') return isObject(value)
+  if (check === 'string') return typeof value === 'string'
+  if (check === 'number') return typeof value === 'number'
+  return typeof value === 'boolean'
+}
+
+/**
+ * Check a document received from a server against JSON:API 1.1 structural rules and resource schemas
+ * @returns the issues found, empty if the document is valid
+ */
+export function validateDocument(doc: unknown, options: ValidationOptions = {}): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const report = (pointer: string, message: string) => issues.push({ pointer, message })
+  const { types } = options
+
+  function checkOptionalObject(value: unknown, pointer: string) {
+    if (value !== undefined && !isObject(value)) report(pointer, 'must be an object')
+  }
+
+  function checkLinks(links: unknown, pointer: string) {
+    if (links === undefined) return
+    if (!isObject(links)) return report(pointer, 'must be an object')
+    for (const [name, link] of Object.entries(links)) {
+      if (link === null || typeof link === 'string') continue
+      if (!isObject(link) || typeof link.href !== 'string')
+        report(`${pointer}/${escapePointer(name)}`, 'must be null, a string or a link object with href')
+    }
+  }
+
+  function checkIdentifier(value: unknown, pointer: string) {
+    if (!isObject(value)) return report(pointer, 'resource identifier must be an object')
+    if (typeof value.type !== 'string' || !value.type) report(`${pointer}/type`, 'must be a non-empty string')
+    if (value.id === undefined && value.lid === undefined) report(pointer, 'resource identifier must have id or lid')
+    if (value.id !== undefined && typeof value.id !== 'string') report(`${pointer}/id`, 'must be a string')
+    if (value.lid !== undefined && typeof value.lid !== 'string') report(`${pointer}/lid`, 'must be a string')
+    checkOptionalObject(value.meta, `${pointer}/meta`)
+  }
+
+  function checkRelationship(value: unknown, pointer: string) {
+    if (!isObject(value)) return report(pointer, 'relationship must be an object')
+    if (value.data === undefined && value.links === undefined && value.meta === undefined)
+      report(pointer, 'relationship must have data, links or meta')
+    if (Array.isArray(value.data))
+      for (const [i, rid] of value.data.entries()) checkIdentifier(rid, `${pointer}/data/${i}`)
+    else if (value.data !== null && value.data !== undefined) checkIdentifier(value.data, `${pointer}/data`)
+    checkLinks(value.links, `${pointer}/links`)
+    if (isObject(value.links) && value.links.self === undefined && value.links.related === undefined)
+      report(`${pointer}/links`, 'relationship links must have self or related')
+    checkOptionalObject(value.meta, `${pointer}/meta`)
+  }
+
+  function checkResource(value: unknown, pointer: string) {
+    if (!isObject(value)) return report(pointer, 'resource must be an object')
+    const { type, id, lid, attributes, relationships } = value
+    if (typeof type !== 'string' || !type) report(`${pointer}/type`, 'must be a non-empty string')
+    if (typeof id !== 'string') report(`${pointer}/id`, 'must be a string')
+    if (lid !== undefined && typeof lid !== 'string') report(`${pointer}/lid`, 'must be a string')
+    const schema = types && typeof type === 'string' ? types[type] : undefined
+    if (types && typeof type === 'string' && type && !schema) report(`${pointer}/type`, `unexpected type ${type}`)
+    checkOptionalObject(attributes, `${pointer}/attributes`)
+    checkOptionalObject(relationships, `${pointer}/relationships`)
+    const attributeNames = isObject(attributes) ? Object.keys(attributes) : []
+    const relationshipNames = isObject(relationships) ? Object.keys(relationships) : []
+    for (const name of [...attributeNames, ...relationshipNames]) {
+      const kind = attributeNames.includes(name) ? 'attributes' : 'relationships'
+      const at = `${pointer}/${kind}/${escapePointer(name)}`
+      if (name === 'id' || name === 'type') report(at, `field must not be named ${name}`)
+      else if (!memberName.test(name)) report(at, `invalid member name ${name}`)
+    }
+    for (const name of relationshipNames) {
+      if (attributeNames.includes(name))
+        report(
+          `${pointer}/relationships/${escapePointer(name)}`,
+          `field ${name} must not be both attribute and relationship`,
+        )
+      if (schema?.relationships && !schema.relationships.includes(name))
+        report(`${pointer}/relationships/${escapePointer(name)}`, `unexpected relationship ${name} of type ${type}`)
+      checkRelationship(
+        (relationships as Record<string, unknown>)[name],
+        `${pointer}/relationships/${escapePointer(name)}`,
+      )
+    }
+    for (const [name, check] of Object.entries(schema?.attributes ?? {})) {
+      const attribute = isObject(attributes) ? attributes[name] : undefined
+      // NOTE: attributes left out, e.g. by a sparse fieldset, are not checked
+      if (attribute === undefined || attribute === null || matchesCheck(attribute, check)) continue
+      const expected =
+        typeof check === 'function' ? 'to pass its check' : `to be ${check === 'array' ? 'an' : 'a'} ${check}`
+      report(`${pointer}/attributes/${escapePointer(name)}`, `expected ${name} ${expected}`)
+    }
+    checkLinks(value.links, `${pointer}/links`)
+    checkOptionalObject(value.meta, `${pointer}/meta`)
+  }
+
+  if (!isObject(doc)) {
+    report('', 'document must be an object')
+    return issues
+  }
+  const extensionMembers = Object.keys(doc).filter((name) => name.includes(':'))
+  for (const name of Object.keys(doc))
+    if (!topLevelMembers.includes(name) && !name.includes(':') && !name.startsWith('@'))
+      report(`/${escapePointer(name)}`, `unexpected top-level member ${name}`)
+  if (doc.data === undefined && doc.errors === undefined && doc.meta === undefined && extensionMembers.length === 0)
+    report('', 'document must have data, errors or meta')
+  if (doc.data !== undefined && doc.errors !== undefined)
+    report('/errors', 'document must not have both data and errors')
+  if (doc.included !== undefined && doc.data === undefined)
+    report('/included', 'document without data must not have included')
+
+  if (doc.jsonapi !== undefined) {
+    const { jsonapi } = doc
+    if (!isObject(jsonapi)) report('/jsonapi', 'must be an object')
+    else {
+      if (jsonapi.version !== undefined && typeof jsonapi.version !== 'string')
+        report('/jsonapi/version', 'must be a string')
+      for (const member of ['ext', 'profile'])
+        if (
+          jsonapi[member] !== undefined &&
+          !(Array.isArray(jsonapi[member]) && jsonapi[member].every((uri) => typeof uri === 'string'))
+        )
+          report(`/jsonapi/${member}`, 'must be an array of URIs')
+      checkOptionalObject(jsonapi.meta, '/jsonapi/meta')
+    }
+  }
+  checkLinks(doc.links, '/links')
+  checkOptionalObject(doc.meta, '/meta')
+
+  const resources: [unknown, string][] = []
+  if (Array.isArray(doc.data)) for (const [i, resource] of doc.data.entries()) resources.push([resource, `/data/${i}`])
+  else if (doc.data !== null && doc.data !== undefined) resources.push([doc.data, '/data'])
+  if (doc.included !== undefined) {
+    if (!Array.isArray(doc.included)) report('/included', 'must be an array')
+    else for (const [i, resource] of doc.included.entries()) resources.push([resource, `/included/${i}`])
+  }
+  const results = doc['atomic:results']
+  if (Array.isArray(results))
+    for (const [i, result] of results.entries())
+      if (isObject(result) && result.data !== null && result.data !== undefined)
+        resources.push([result.data, `/atomic:results/${i}/data`])
+  const seen = new Set<string>()
+  for (const [resource, pointer] of resources) {
+    checkResource(resource, pointer)
+    if (!isObject(resource) || pointer.startsWith('/atomic:results')) continue
+    const key = `${resource.type}:${resource.id}`
+    if (seen.has(key)) report(pointer, `duplicate resource ${resource.type} ${resource.id}`)
+    seen.add(key)
+  }
+
+  if (doc.errors !== undefined) {
+    if (!Array.isArray(doc.errors)) report('/errors', 'must be an array')
+    else
+      for (const [i, error] of doc.errors.entries()) {
+        if (!isObject(error)) {
+          report(`/errors/${i}`, 'error must be an object')
+          continue
+        }
+        for (const member of ['id', 'status', 'code', 'title', 'detail'])
+          if (error[member] !== undefined && typeof error[member] !== 'string')
+            report(`/errors/${i}/${member}`, 'must be a string')
+        checkOptionalObject(error.source, `/errors/${i}/source`)
+        checkLinks(error.links, `/errors/${i}/links`)
+      }
+  }
+  return issues
+}
+
+/**
+ * Wrap a fetcher to check the documents it receives
+ * @param check called with each document received, may throw to reject it
+ * @internal
+ */
+export function validatingFetcher(fetcher: JsonApiFetcher, check: (doc: unknown) => void): JsonApiFetcher {
+  function checked<T>(doc: T) {
+    check(doc)
+    return doc
+  }
+  // NOTE: writes may respond with 204 No Content, resulting in an empty document
+  function checkedWrite<T extends object>(doc: T) {
+    return Object.keys(doc).length > 0 ? checked(doc) : doc
+  }
+  return {
+    fetchDocument: async (...args) => checked(await fetcher.fetchDocument(...args)),
+    fetchOne: async (...args) => checked({ data: await fetcher.fetchOne(...args) }).data,
+    fetchAll: async (...args) => checked({ data: await fetcher.fetchAll(...args) }).data,
+    fetchLink: async (...args) => checked(await fetcher.fetchLink(...args)),
+    fetchHasMany: async (...args) => checked(await fetcher.fetchHasMany(...args)),
+    fetchBelongsTo: async (...args) => checked(await fetcher.fetchBelongsTo(...args)),
+    post: async (resource) => checkedWrite(await fetcher.post(resource)),
+    patch: async (resource) => checkedWrite(await fetcher.patch(resource)),
+    delete: (type, id) => fetcher.delete(type, id),
+    patchRelationship: (...args) => fetcher.patchRelationship(...args),
+    postRelationship: (...args) => fetcher.postRelationship(...args),
+    deleteRelationship: (...args) => fetcher.deleteRelationship(...args),
+    atomic: async (operations: JsonApiAtomicOperation[]) => checkedWrite(await fetcher.atomic(operations)),
+  }
+}
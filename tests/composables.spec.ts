@@ -0,0 +1,79 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { effectScope, nextTick, ref } from 'vue'
+import { useFindAll, useFindRecord } from '../src/composables'
+import { Model, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { calls, stubFetch } from './fetch-stub'
+
+class Item extends Model {
+  name?: string
+}
+
+const useStore = definePiniaJsonApiStore('composables', {
+  endpoint: 'http://localhost/api',
+  modelDefinitions: [{ type: 'items', ctor: Item }],
+})
+
+describe('composables', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('useFindAll refetches when options change', async () => {
+    stubFetch((call) => {
+      const number = new URL(call.url).searchParams.get('page[number]')
+      return { status: 200, doc: { data: [{ type: 'items', id: number ?? '0', attributes: {} }] } }
+    })
+    const store = useStore()
+    const page = ref(1)
+    const scope = effectScope()
+    const result = scope.run(() => useFindAll(store, Item, () => ({ page: { number: page.value } })))
+    if (!result) throw new Error('Unexpected')
+    expect(result.isLoading.value).toBe(true)
+    await vi.waitFor(() => expect(result.data.value.map((r) => r.id)).toEqual(['1']))
+    expect(result.isLoading.value).toBe(false)
+    page.value = 2
+    await vi.waitFor(() => expect(result.data.value.map((r) => r.id)).toEqual(['2']))
+    expect(calls.length).toBe(2)
+    scope.stop()
+  })
+
+  test('useFindRecord ignores stale responses and reports errors', async () => {
+    const resolvers: Record<string, () => void> = {}
+    stubFetch(async (call) => {
+      const id = new URL(call.url).pathname.split('/').pop() as string
+      await new Promise<void>((resolve) => {
+        resolvers[id] = resolve
+      })
+      if (id === '3') return { status: 404, doc: { errors: [{ status: '404', title: 'Not Found' }] } }
+      return { status: 200, doc: { data: { type: 'items', id, attributes: { name: `Item ${id}` } } } }
+    })
+    const store = useStore()
+    const id = ref<string | undefined>('1')
+    const scope = effectScope()
+    const result = scope.run(() => useFindRecord(store, Item, id))
+    if (!result) throw new Error('Unexpected')
+    await vi.waitFor(() => expect(resolvers['1']).toBeDefined())
+    id.value = '2'
+    await vi.waitFor(() => expect(resolvers['2']).toBeDefined())
+    resolvers['2']()
+    await vi.waitFor(() => expect(result.data.value?.name).toBe('Item 2'))
+    resolvers['1']()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    expect(result.data.value?.name).toBe('Item 2')
+    id.value = '3'
+    await vi.waitFor(() => expect(resolvers['3']).toBeDefined())
+    resolvers['3']()
+    await vi.waitFor(() => expect(result.error.value).toBeDefined())
+    expect(result.isLoading.value).toBe(false)
+    id.value = undefined
+    await nextTick()
+    expect(result.data.value).toBeUndefined()
+    scope.stop()
+  })
+})
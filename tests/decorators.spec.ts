@@ -0,0 +1,89 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { attr, belongsTo, getDecoratedModel, hasMany, model } from '../src/decorators'
+import { Model, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { dateTransform } from '../src/transforms'
+import { calls, respond } from './fetch-stub'
+
+@model('people')
+class Person extends Model {
+  @attr() name?: string
+  @hasMany(() => Article) articles: Article[] = []
+}
+
+@model('comments')
+class Comment extends Model {
+  @attr() body?: string
+}
+
+@model('articles', { cache: { maxAge: 1000 } })
+class Article extends Model {
+  @attr() title?: string
+  @attr(dateTransform) published?: Date
+  @belongsTo(() => Person) author: Person | null = null
+  @hasMany(() => Comment) comments: Comment[] = []
+}
+
+const useStore = definePiniaJsonApiStore('decorators', {
+  endpoint: 'http://localhost/api',
+  modelDefinitions: [Person, Comment, Article],
+})
+
+describe('Model decorators', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('model definitions are generated from decorated classes', async () => {
+    const { modelRegistry, findRecord, findRelated } = useStore()
+    expect(modelRegistry.get(Article)).toBe('articles')
+    respond(200, {
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: { title: 'Hello', published: '2024-01-01T00:00:00.000Z' },
+        relationships: { author: { data: { type: 'people', id: '9' } } },
+      },
+      included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+    })
+    const article = await findRecord(Article, '1')
+    expect(article.published).toEqual(new Date('2024-01-01T00:00:00.000Z'))
+    expect(article.author?.name).toBe('Dan')
+    respond(200, { data: [{ type: 'comments', id: '5', attributes: { body: 'Nice' } }] })
+    await findRelated(article, 'comments')
+    expect(article.comments.map((c) => c.body)).toEqual(['Nice'])
+    respond(200, { data: [{ type: 'articles', id: '1', attributes: { title: 'Hello' } }] })
+    await findRelated(article.author as Person, 'articles')
+    expect(article.author?.articles).toEqual([article])
+    // @ts-expect-error misspelled relationship name
+    await expect(findRelated(article, 'commnets')).rejects.toThrow('commnets')
+  })
+
+  test('fields are collected per class and inherited', () => {
+    abstract class Named extends Model {
+      @attr() name?: string
+    }
+    @model('labels')
+    class Label extends Model {
+      @attr() text?: string
+    }
+    @model('tags')
+    class Tag extends Named {
+      @attr() color?: string
+    }
+    expect(getDecoratedModel(Label)?.fields.map((f) => f.name)).toEqual(['text'])
+    expect(getDecoratedModel(Tag)?.fields.map((f) => f.name)).toEqual(['name', 'color'])
+  })
+
+  test('undecorated class is rejected', () => {
+    class Tag extends Model {}
+    expect(() =>
+      definePiniaJsonApiStore('undecorated', { endpoint: 'http://localhost/api', modelDefinitions: [Tag] }),
+    ).toThrow('Model Tag is not declared with @model')
+  })
+})
@@ -0,0 +1,50 @@
+import { vi } from 'vitest'
+import type { JsonApiAtomicDocument, JsonApiDocument } from '../src/json-api'
+
+export interface Call {
+  method: string
+  url: string
+  headers: Headers
+  body?: JsonApiDocument & JsonApiAtomicDocument
+}
+
+export interface StubResponse {
+  status: number
+  doc?: JsonApiDocument | JsonApiAtomicDocument
+}
+
+/**
+ * Requests made since the last reset
+ */
+export const calls: Call[] = []
+
+/**
+ * Stub global fetch with a handler that records requests and produces responses
+ */
+export function stubFetch(handler: (call: Call) => StubResponse | Promise<StubResponse>) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (request: Request) => {
+      const text = await request.text()
+      const call = {
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        body: text ? JSON.parse(text) : undefined,
+      }
+      calls.push(call)
+      const { status, doc } = await handler(call)
+      return new Response(doc ? JSON.stringify(doc) : null, {
+        status,
+        headers: { 'Content-Type': 'application/vnd.api+json' },
+      })
+    }),
+  )
+}
+
+/**
+ * Stub global fetch to always respond with the given status and document
+ */
+export function respond(status: number, doc?: JsonApiDocument | JsonApiAtomicDocument) {
+  stubFetch(() => ({ status, doc }))
+}
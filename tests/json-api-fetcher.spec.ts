@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { JsonApiResponseError } from '../src/json-api-error'
+import { JsonApiFetcherImpl } from '../src/json-api-fetcher'
+import { calls, respond } from './fetch-stub'
+
+function stubHangingFetch() {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(
+      (request: Request) =>
+        new Promise((_, reject) => {
+          if (request.signal.aborted) reject(request.signal.reason)
+          request.signal.addEventListener('abort', () => reject(request.signal.reason))
+        }),
+    ),
+  )
+}
+
+describe('JsonApiFetcherImpl', () => {
+  beforeEach(() => {
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('abort request with signal', async () => {
+    stubHangingFetch()
+    const fetcher = new JsonApiFetcherImpl('http://localhost/api')
+    const controller = new AbortController()
+    const promise = fetcher.fetchDocument('items', undefined, { signal: controller.signal })
+    controller.abort()
+    await expect(promise).rejects.toThrow('aborted')
+  })
+
+  test('default and per call timeout', async () => {
+    stubHangingFetch()
+    const fetcher = new JsonApiFetcherImpl('http://localhost/api', undefined, { timeout: 10 })
+    await expect(fetcher.fetchDocument('items')).rejects.toThrow('Request timed out')
+    await expect(fetcher.fetchDocument('items', undefined, { timeout: 20 })).rejects.toThrow('Request timed out')
+  })
+
+  test('default and per call retry policy', async () => {
+    respond(503, { errors: [{ status: '503', title: 'Unavailable' }] })
+    const fetcher = new JsonApiFetcherImpl('http://localhost/api', undefined, { retry: { limit: 2, delay: () => 0 } })
+    await expect(fetcher.fetchDocument('items')).rejects.toBeInstanceOf(JsonApiResponseError)
+    expect(calls.length).toBe(3)
+    calls.length = 0
+    await expect(fetcher.fetchDocument('items', undefined, { retry: 0 })).rejects.toThrow('Unavailable')
+    expect(calls.length).toBe(1)
+  })
+
+  test('links relative to the endpoint', async () => {
+    respond(200, { data: [] })
+    const fetcher = new JsonApiFetcherImpl('http://localhost/api')
+    await fetcher.fetchLink('/api/items?page[number]=2')
+    await fetcher.fetchLink('/api/items?page[number]=2', { include: ['tags'] })
+    expect(calls.map((call) => decodeURIComponent(call.url))).toEqual([
+      'http://localhost/api/items?page[number]=2',
+      'http://localhost/api/items?page[number]=2&include=tags',
+    ])
+  })
+})
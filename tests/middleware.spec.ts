@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { computed, ref } from 'vue'
+import { JsonApiFetcherImpl } from '../src/json-api-fetcher'
+import {
+  apiKeyMiddleware,
+  bearerAuthMiddleware,
+  credentialsMiddleware,
+  loggerMiddleware,
+  refreshAuthMiddleware,
+  responseMiddleware,
+} from '../src/middleware'
+import { calls, respond, stubFetch } from './fetch-stub'
+
+describe('middleware', () => {
+  beforeEach(() => {
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('bearer auth and api key headers', async () => {
+    respond(200, { data: [] })
+    const token = ref<string>()
+    const fetcher = new JsonApiFetcherImpl('http://localhost/api', undefined, {
+      middleware: [bearerAuthMiddleware(() => token.value), apiKeyMiddleware('X-Api-Key', 'secret')],
+    })
+    await fetcher.fetchDocument('items')
+    expect(calls[0].headers.get('Authorization')).toBeNull()
+    expect(calls[0].headers.get('X-Api-Key')).toBe('secret')
+    expect(calls[0].headers.get('Accept')).toBe('application/vnd.api+json')
+    token.value = 'abc'
+    await fetcher.fetchDocument('items')
+    expect(calls[1].headers.get('Authorization')).toBe('Bearer abc')
+  })
+
+  test('state without token does not send authorization', async () => {
+    respond(200, { data: [] })
+    const state = computed(() => ({ token: '' }))
+    const fetcher = new JsonApiFetcherImpl('http://localhost/api', state)
+    await fetcher.fetchDocument('items')
+    expect(calls[0].headers.get('Authorization')).toBeNull()
+  })
+
+  test('refresh token on 401 and retry once with body', async () => {
+    let token = 'expired'
+    stubFetch((call) => ({ status: call.headers.get('Authorization') === 'Bearer fresh' ? 201 : 401, doc: {} }))
+    const refresh = vi.fn(async () => {
+      token = 'fresh'
+    })
+    const fetcher = new JsonApiFetcherImpl('http://localhost/api', undefined, {
+      middleware: [refreshAuthMiddleware(refresh), bearerAuthMiddleware(() => token)],
+    })
+    await fetcher.post({ type: 'items', attributes: { name: 'Item' } })
+    expect(refresh).toHaveBeenCalledTimes(1)
+    expect(calls.length).toBe(2)
+    expect(calls[1].body).toEqual({ data: { type: 'items', attributes: { name: 'Item' } } })
+    token = 'expired'
+    stubFetch(() => ({ status: 401, doc: { errors: [{ status: '401', title: 'Unauthorized' }] } }))
+    await expect(fetcher.fetchDocument('items')).rejects.toThrow('Unauthorized')
+    expect(refresh).toHaveBeenCalledTimes(2)
+  })
+
+  test('logging, credentials and response inspection', async () => {
+    respond(200, { data: [], meta: { version: '1' } })
+    const log = vi.fn()
+    const inspect = vi.fn()
+    let credentials: RequestCredentials | undefined
+    const fetcher = new JsonApiFetcherImpl('http://localhost/api', undefined, {
+      middleware: [
+        loggerMiddleware(log),
+        credentialsMiddleware(),
+        async (request, next) => {
+          credentials = request.credentials
+          return next(request)
+        },
+        responseMiddleware(async (response) => inspect((await response.json()).meta)),
+      ],
+    })
+    await fetcher.fetchDocument('items')
+    expect(log.mock.calls[0][0]).toMatch(/^GET http:\/\/localhost\/api\/items 200 \d+ms$/)
+    expect(credentials).toBe('include')
+    expect(inspect).toHaveBeenCalledWith({ version: '1' })
+  })
+})
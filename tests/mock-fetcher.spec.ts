@@ -0,0 +1,170 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, test } from 'vitest'
+import type { JsonApiResource, JsonApiResourceIdentifier } from '../src/json-api'
+import { JsonApiResponseError } from '../src/json-api-error'
+import { MockJsonApiFetcher } from '../src/mock-fetcher'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+
+class Person extends Model {
+  name?: string
+}
+
+class Article extends Model {
+  title?: string
+  views?: number
+  author: Person | null = null
+  related: Article[] = []
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  {
+    type: 'articles',
+    ctor: Article,
+    rels: {
+      author: { ctor: Person, type: RelationshipType.BelongsTo },
+      related: { ctor: Article, type: RelationshipType.HasMany },
+    },
+  },
+]
+
+const fixtures: JsonApiResource[] = [
+  { type: 'people', id: '1', attributes: { name: 'Dan' } },
+  { type: 'people', id: '2', attributes: { name: 'Bob' } },
+  ...[1, 2, 3, 4, 5].map((i) => ({
+    type: 'articles',
+    id: `${i}`,
+    attributes: { title: `Article ${i}`, views: i * 10 },
+    relationships: {
+      author: { data: { type: 'people', id: i % 2 ? '1' : '2' } },
+      related: { data: i > 1 ? [{ type: 'articles', id: `${i - 1}` }] : [] },
+    },
+  })),
+]
+
+describe('MockJsonApiFetcher', () => {
+  let fetcher: MockJsonApiFetcher
+
+  beforeEach(() => {
+    fetcher = new MockJsonApiFetcher(modelDefinitions, fixtures)
+  })
+
+  test('include and sparse fieldsets', async () => {
+    const doc = await fetcher.fetchDocument('articles', '2', {
+      include: ['author', 'related.author'],
+      fields: { articles: ['title', 'author'] },
+    })
+    const article = doc.data as JsonApiResource
+    expect(article.attributes).toEqual({ title: 'Article 2' })
+    expect(Object.keys(article.relationships ?? {})).toEqual(['author'])
+    expect(doc.included?.map((r) => `${r.type}:${r.id}`)).toEqual(['people:2', 'articles:1', 'people:1'])
+  })
+
+  test('filter and sort', async () => {
+    const byAuthor = await fetcher.fetchAll('articles', { filter: { 'author.name': 'Dan' }, sort: ['-views'] })
+    expect(byAuthor.map((r) => r.id)).toEqual(['5', '3', '1'])
+    const byViews = await fetcher.fetchAll('articles', { filter: { views: { gt: 20, lte: 40 } }, sort: ['title'] })
+    expect(byViews.map((r) => r.id)).toEqual(['3', '4'])
+    const byIds = await fetcher.fetchAll('articles', { filter: { id: ['1', '4'] } })
+    expect(byIds.map((r) => r.id)).toEqual(['1', '4'])
+    const sorted = await fetcher.fetchAll('articles', { sort: [{ field: 'author.name', direction: 'asc' }, '-views'] })
+    expect(sorted.map((r) => r.id)).toEqual(['4', '2', '5', '3', '1'])
+  })
+
+  test('pagination links are followed', async () => {
+    const doc = await fetcher.fetchDocument('articles', undefined, { page: { number: 1, size: 2 }, sort: ['views'] })
+    expect((doc.data as JsonApiResource[]).map((r) => r.id)).toEqual(['1', '2'])
+    expect(doc.meta).toEqual({ totalItems: 5, totalPages: 3 })
+    expect(doc.links?.prev).toBeUndefined()
+    const next = await fetcher.fetchLink(doc.links?.next as string)
+    expect((next.data as JsonApiResource[]).map((r) => r.id)).toEqual(['3', '4'])
+    const last = await fetcher.fetchLink(next.links?.last as string)
+    expect((last.data as JsonApiResource[]).map((r) => r.id)).toEqual(['5'])
+    expect(last.links?.next).toBeUndefined()
+    const offset = await fetcher.fetchDocument('articles', undefined, { page: { offset: 4, limit: 2 } })
+    expect((offset.data as JsonApiResource[]).map((r) => r.id)).toEqual(['5'])
+    expect(offset.links?.prev).toBe('http://localhost/api/articles?page%5Boffset%5D=2&page%5Blimit%5D=2')
+  })
+
+  test('related resources', async () => {
+    const author = await fetcher.fetchBelongsTo('articles', '3', 'author')
+    expect((author.data as JsonApiResource).id).toBe('1')
+    const related = await fetcher.fetchHasMany('articles', '3', 'related')
+    expect((related.data as JsonApiResource[]).map((r) => r.id)).toEqual(['2'])
+  })
+
+  test('writes and relationship endpoints', async () => {
+    const created = await fetcher.post({ type: 'articles', attributes: { title: 'New' } })
+    const id = (created.data as JsonApiResource).id
+    expect(fetcher.resources.get('articles')?.has(id)).toBe(true)
+    await fetcher.patch({ type: 'articles', id, attributes: { views: 1 } })
+    await fetcher.patchRelationship('articles', id, 'author', { type: 'people', id: '2' })
+    await fetcher.postRelationship('articles', id, 'related', [{ type: 'articles', id: '1' }])
+    // NOTE: relationships also have links, which are not matched
+    expect(await fetcher.fetchOne('articles', id)).toMatchObject({
+      type: 'articles',
+      id,
+      attributes: { title: 'New', views: 1 },
+      relationships: {
+        author: { data: { type: 'people', id: '2' } },
+        related: { data: [{ type: 'articles', id: '1' }] },
+      },
+    })
+    await fetcher.delete('articles', '1')
+    expect((await fetcher.fetchOne('articles', id)).relationships?.related.data).toEqual([])
+  })
+
+  test('error documents', async () => {
+    const notFound = await fetcher.fetchOne('articles', '9').catch((e) => e)
+    expect(notFound).toBeInstanceOf(JsonApiResponseError)
+    expect(notFound.status).toBe(404)
+    const conflict = await fetcher.post({ type: 'articles', id: '1', attributes: {} }).catch((e) => e)
+    expect(conflict.status).toBe(409)
+    expect(conflict.errors[0].source).toEqual({ pointer: '/data/id' })
+    const include = await fetcher.fetchAll('articles', { include: ['comments'] }).catch((e) => e)
+    expect(include.status).toBe(400)
+    expect(include.errors[0].source).toEqual({ parameter: 'include' })
+    const toOne = await fetcher.postRelationship('articles', '1', 'author', []).catch((e) => e)
+    expect(toOne.status).toBe(403)
+  })
+
+  test('atomic operations are all or nothing', async () => {
+    const result = await fetcher.atomic([
+      { op: 'add', data: { type: 'people', lid: 'a', attributes: { name: 'Eve' } } },
+      {
+        op: 'update',
+        ref: { type: 'articles', id: '1', relationship: 'author' },
+        data: { type: 'people', lid: 'a' } as JsonApiResourceIdentifier,
+      },
+    ])
+    const person = result['atomic:results']?.[0].data as JsonApiResource
+    expect((await fetcher.fetchOne('articles', '1')).relationships?.author.data).toEqual({
+      type: 'people',
+      id: person.id,
+    })
+    const error = await fetcher
+      .atomic([
+        { op: 'remove', ref: { type: 'articles', id: '2' } },
+        { op: 'remove', ref: { type: 'articles', id: '9' } },
+      ])
+      .catch((e) => e)
+    expect(Object.keys(error.operationErrors())).toEqual(['1'])
+    expect(fetcher.resources.get('articles')?.has('2')).toBe(true)
+  })
+
+  test('serves a store', async () => {
+    setActivePinia(createPinia())
+    const useStore = definePiniaJsonApiStore(
+      'mock',
+      { endpoint: 'http://localhost/api', modelDefinitions },
+      new MockJsonApiFetcher(modelDefinitions, fixtures),
+    )
+    const { findAll, createRecord, findRecord } = useStore()
+    const { records } = await findAll(Article, { include: ['author'], filter: { views: { gte: 40 } } })
+    expect(records.map((r) => r.author?.name)).toEqual(['Bob', 'Dan'])
+    const article = await createRecord(Article, { title: 'New', author: records[0].author })
+    // NOTE: ids are assigned without colliding with seeded resources
+    expect(article.id).toBe('6')
+    expect((await findRecord(Article, '6', { include: ['author'] })).author?.name).toBe('Bob')
+  })
+})
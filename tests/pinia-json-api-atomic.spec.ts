@@ -0,0 +1,156 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { JsonApiResponseError } from '../src/json-api-error'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { calls, respond } from './fetch-stub'
+
+class Person extends Model {
+  name?: string
+}
+
+class Tag extends Model {
+  name?: string
+}
+
+class Article extends Model {
+  title?: string
+  slug?: string
+  author: Person | null = null
+  tags: Tag[] = []
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  { type: 'tags', ctor: Tag },
+  {
+    type: 'articles',
+    ctor: Article,
+    rels: {
+      author: { ctor: Person, type: RelationshipType.BelongsTo },
+      tags: { ctor: Tag, type: RelationshipType.HasMany },
+    },
+  },
+]
+
+const useStore = definePiniaJsonApiStore('atomic', { endpoint: 'http://localhost/api', modelDefinitions })
+
+describe('PiniaJsonApiStore atomic operations', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('create linked records with local ids', async () => {
+    const { atomic, peekRecord } = useStore()
+    const transaction = atomic()
+    const author = transaction.create(Person, { name: 'Dan' })
+    const tag = transaction.create(Tag, { id: 't1', name: 'news' })
+    const article = transaction.create(Article, { title: 'Hello', author, tags: [tag] })
+    respond(200, {
+      'atomic:results': [
+        { data: { type: 'people', id: '9', attributes: { name: 'Dan' } } },
+        {},
+        { data: { type: 'articles', id: '1', attributes: { title: 'Hello', slug: 'hello' } } },
+      ],
+    })
+    await transaction.commit()
+    expect(calls[0].method).toBe('POST')
+    expect(calls[0].url).toBe('http://localhost/api/operations')
+    expect(calls[0].headers.get('Content-Type')).toBe('application/vnd.api+json; ext="https://jsonapi.org/ext/atomic"')
+    expect(calls[0].body).toEqual({
+      'atomic:operations': [
+        { op: 'add', data: { type: 'people', lid: 'lid-1', attributes: { name: 'Dan' } } },
+        { op: 'add', data: { type: 'tags', id: 't1', attributes: { name: 'news' } } },
+        {
+          op: 'add',
+          data: {
+            type: 'articles',
+            lid: 'lid-2',
+            attributes: { title: 'Hello' },
+            relationships: {
+              author: { data: { type: 'people', lid: 'lid-1' } },
+              tags: { data: [{ type: 'tags', id: 't1' }] },
+            },
+          },
+        },
+      ],
+    })
+    expect(author.id).toBe('9')
+    expect(article.id).toBe('1')
+    expect(peekRecord(Article, '1')).toBe(article)
+    expect(peekRecord(Tag, 't1')).toBe(tag)
+    expect(article.slug).toBe('hello')
+    expect(article.author).toBe(author)
+    expect(article.isDirty).toBe(false)
+  })
+
+  test('update, relationship and remove operations', async () => {
+    const { createRecord, atomic, peekRecord } = useStore()
+    respond(201, { data: { type: 'articles', id: '1', attributes: { title: 'Hello' } } })
+    const article = await createRecord(Article, { title: 'Hello' })
+    respond(201, { data: { type: 'tags', id: 'a', attributes: { name: 'a' } } })
+    const tag = await createRecord(Tag, { id: 'a', name: 'a' })
+    const transaction = atomic()
+    article.title = 'Changed'
+    transaction.update(article)
+    const author = transaction.create(Person, { name: 'Dan' })
+    transaction.setRelationship(article, 'author', author)
+    transaction.addToRelationship(article, 'tags', [tag])
+    transaction.remove(tag)
+    // @ts-expect-error author is not a to-many relationship
+    expect(() => transaction.addToRelationship(article, 'author', [tag])).toThrow('not a to-many relationship')
+    expect(transaction.operations.length).toBe(5)
+    respond(200, {
+      'atomic:results': [
+        { data: { type: 'articles', id: '1', attributes: { title: 'Changed' } } },
+        { data: { type: 'people', id: '9', attributes: { name: 'Dan' } } },
+        {},
+        {},
+        {},
+      ],
+    })
+    await transaction.commit()
+    expect(calls[2].body?.['atomic:operations']).toEqual([
+      { op: 'update', data: { type: 'articles', id: '1', attributes: { title: 'Changed' } } },
+      { op: 'add', data: { type: 'people', lid: 'lid-1', attributes: { name: 'Dan' } } },
+      {
+        op: 'update',
+        ref: { type: 'articles', id: '1', relationship: 'author' },
+        data: { type: 'people', lid: 'lid-1' },
+      },
+      { op: 'add', ref: { type: 'articles', id: '1', relationship: 'tags' }, data: [{ type: 'tags', id: 'a' }] },
+      { op: 'remove', ref: { type: 'tags', id: 'a' } },
+    ])
+    expect(article.author?.id).toBe('9')
+    // NOTE: the removed tag is also removed from the relationship it was added to
+    expect(article.tags).toEqual([])
+    expect(article.isDirty).toBe(false)
+    expect(peekRecord(Tag, 'a')).toBeUndefined()
+  })
+
+  test('errors map to operations and nothing is applied', async () => {
+    const { createRecord, atomic } = useStore()
+    respond(201, { data: { type: 'articles', id: '1', attributes: { title: 'Hello' } } })
+    const article = await createRecord(Article, { title: 'Hello' })
+    const transaction = atomic()
+    const author = transaction.create(Person, { name: '' })
+    transaction.setRelationship(article, 'author', author)
+    respond(422, {
+      errors: [
+        { status: '422', detail: 'Name is required', source: { pointer: '/atomic:operations/0/data/attributes/name' } },
+      ],
+    })
+    const error = await transaction.commit().catch((e) => e)
+    expect(error).toBeInstanceOf(JsonApiResponseError)
+    const operationErrors = error.operationErrors()
+    expect(Object.keys(operationErrors)).toEqual(['0'])
+    expect(transaction.operations[0].op).toBe('add')
+    expect(operationErrors[0][0].detail).toBe('Name is required')
+    expect(author.id).toBe('')
+    expect(article.author).toBeNull()
+  })
+})
@@ -0,0 +1,128 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { Model, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { calls, stubFetch } from './fetch-stub'
+
+class Item extends Model {
+  name?: string
+}
+
+class Other extends Model {}
+
+const useStore = definePiniaJsonApiStore('cache', {
+  endpoint: 'http://localhost/api',
+  modelDefinitions: [
+    { type: 'items', ctor: Item, cache: { maxAge: 1000, staleWhileRevalidate: 1000 } },
+    { type: 'others', ctor: Other },
+  ],
+})
+
+let version = 0
+
+describe('PiniaJsonApiStore request deduplication and caching', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+    version = 0
+    vi.useFakeTimers({ toFake: ['Date'] })
+    stubFetch(async (call) => {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      const [type, id] = new URL(call.url).pathname.split('/').slice(2)
+      const resource = (id: string) => ({ type, id, attributes: { name: `${id} v${++version}` } })
+      return { status: 200, doc: { data: id ? resource(id) : [resource('1'), resource('2')] } }
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  test('identical requests in flight share one request', async () => {
+    const { findRecord } = useStore()
+    const [a, b, c] = await Promise.all([
+      findRecord(Other, '1', { include: ['x'] }),
+      findRecord(Other, '1', { include: ['x'] }),
+      findRecord(Other, '1'),
+    ])
+    expect(calls.length).toBe(2)
+    expect(a).toBe(b)
+    expect(a).toBe(c)
+  })
+
+  test('aborting one caller does not abort a shared request', async () => {
+    const { findRecord } = useStore()
+    const controller = new AbortController()
+    const aborted = findRecord(Other, '1', { signal: controller.signal })
+    const other = findRecord(Other, '1')
+    controller.abort()
+    await expect(aborted).rejects.toThrow()
+    expect((await other).id).toBe('1')
+    expect(calls.length).toBe(1)
+  })
+
+  test('an identical query after all callers aborted starts a new request', async () => {
+    const { findRecord } = useStore()
+    const first = new AbortController()
+    const aborted = findRecord(Other, '1', { signal: first.signal })
+    first.abort()
+    await expect(aborted).rejects.toThrow()
+    const second = new AbortController()
+    expect((await findRecord(Other, '1', { signal: second.signal })).id).toBe('1')
+    expect(calls.length).toBe(2)
+  })
+
+  test('pages of a cached result are not aborted with the signal of the first caller', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (request: Request) => {
+        if (request.signal.aborted) throw request.signal.reason
+        const page = new URL(request.url).searchParams.get('page[number]') ?? '1'
+        const doc = {
+          data: [{ type: 'items', id: page, attributes: {} }],
+          links: { next: page === '1' ? 'http://localhost/api/items?page[number]=2' : null },
+        }
+        return new Response(JSON.stringify(doc), { headers: { 'Content-Type': 'application/vnd.api+json' } })
+      }),
+    )
+    const { findAll } = useStore()
+    const controller = new AbortController()
+    const first = await findAll(Item, { signal: controller.signal })
+    controller.abort()
+    const cached = await findAll(Item)
+    expect(cached).toBe(first)
+    expect((await cached.nextPage())?.records.map((r) => r.id)).toEqual(['2'])
+  })
+
+  test('fresh results are served from cache and stale results revalidated in the background', async () => {
+    const { findRecord, findAll } = useStore()
+    const item = await findRecord(Item, '1')
+    expect(item.name).toBe('1 v1')
+    expect(await findRecord(Item, '1')).toBe(item)
+    expect(calls.length).toBe(1)
+    vi.setSystemTime(Date.now() + 1500)
+    expect((await findRecord(Item, '1')).name).toBe('1 v1')
+    await vi.waitFor(() => expect(item.name).toBe('1 v2'))
+    expect(calls.length).toBe(2)
+    vi.setSystemTime(Date.now() + 5000)
+    expect((await findRecord(Item, '1')).name).toBe('1 v3')
+    const page = await findAll(Item)
+    expect(await findAll(Item)).toBe(page)
+    expect(calls.length).toBe(4)
+  })
+
+  test('invalidate cached results', async () => {
+    const { findRecord, findAll, invalidate } = useStore()
+    await findRecord(Item, '1')
+    await findAll(Item)
+    invalidate(Item, '2')
+    await findRecord(Item, '1')
+    expect(calls.length).toBe(2)
+    await findAll(Item)
+    expect(calls.length).toBe(3)
+    invalidate('items')
+    await findRecord(Item, '1')
+    await findAll(Item)
+    expect(calls.length).toBe(5)
+  })
+})
@@ -0,0 +1,192 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { JsonApiResponseError } from '../src/json-api-error'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { calls, respond } from './fetch-stub'
+
+class Person extends Model {
+  name?: string
+}
+
+class Tag extends Model {
+  name?: string
+}
+
+class Article extends Model {
+  title?: string
+  slug?: string
+  updated?: boolean
+  keywords?: string[]
+  author: Person | null = null
+  tags: Tag[] = []
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  { type: 'tags', ctor: Tag },
+  {
+    type: 'articles',
+    ctor: Article,
+    rels: {
+      author: { ctor: Person, type: RelationshipType.BelongsTo },
+      tags: { ctor: Tag, type: RelationshipType.HasMany },
+    },
+  },
+]
+
+const useStore = definePiniaJsonApiStore('crud', { endpoint: 'http://localhost/api', modelDefinitions })
+
+describe('PiniaJsonApiStore CRUD', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('create record with server assigned id', async () => {
+    const { createRecord, peekRecord } = useStore()
+    respond(201, { data: { type: 'articles', id: '42', attributes: { title: 'Hello', slug: 'hello' } } })
+    const author = new Person('9')
+    const article = await createRecord(Article, { title: 'Hello', author })
+    expect(calls[0].method).toBe('POST')
+    expect(calls[0].url).toBe('http://localhost/api/articles')
+    expect(calls[0].body).toEqual({
+      data: {
+        type: 'articles',
+        attributes: { title: 'Hello' },
+        relationships: { author: { data: { type: 'people', id: '9' } }, tags: { data: [] } },
+      },
+    })
+    expect(article.id).toBe('42')
+    expect(article.slug).toBe('hello')
+    expect(peekRecord(Article, '42')).toBe(article)
+  })
+
+  test('create record with client generated id and no content response', async () => {
+    const { createRecord, peekRecord } = useStore()
+    respond(204)
+    const article = await createRecord(Article, { id: 'abc', title: 'Hello' })
+    expect(calls[0].body?.data).toEqual({
+      type: 'articles',
+      id: 'abc',
+      attributes: { title: 'Hello' },
+      relationships: { author: { data: null }, tags: { data: [] } },
+    })
+    expect(article.id).toBe('abc')
+    expect(peekRecord(Article, 'abc')).toBe(article)
+  })
+
+  test('update and delete record', async () => {
+    const { createRecord, updateRecord, deleteRecord, peekRecord } = useStore()
+    respond(201, { data: { type: 'articles', id: '1', attributes: { title: 'Hello' } } })
+    const article = await createRecord(Article, { title: 'Hello' })
+    article.title = 'Changed'
+    respond(200, { data: { type: 'articles', id: '1', attributes: { title: 'Changed', updated: true } } })
+    await updateRecord(article)
+    expect(calls[1].method).toBe('PATCH')
+    expect(calls[1].url).toBe('http://localhost/api/articles/1')
+    expect(calls[1].body?.data).toEqual({
+      type: 'articles',
+      id: '1',
+      attributes: { title: 'Changed' },
+    })
+    expect(article.updated).toBe(true)
+    respond(204)
+    await deleteRecord(article)
+    expect(calls[2].method).toBe('DELETE')
+    expect(calls[2].url).toBe('http://localhost/api/articles/1')
+    expect(peekRecord(Article, '1')).toBeUndefined()
+  })
+
+  test('save record creates or updates', async () => {
+    const { saveRecord } = useStore()
+    respond(201, { data: { type: 'articles', id: '7', attributes: { title: 'New' } } })
+    const article = await saveRecord(new Article(''))
+    expect(calls[0].method).toBe('POST')
+    article.title = 'Changed'
+    respond(200, { data: { type: 'articles', id: '7', attributes: { title: 'Changed' } } })
+    await saveRecord(article)
+    expect(calls[1].method).toBe('PATCH')
+  })
+
+  test('dirty tracking and minimal patch', async () => {
+    const { createRecord, updateRecord } = useStore()
+    respond(201, { data: { type: 'articles', id: '1', attributes: { title: 'Hello', keywords: ['a'] } } })
+    const article = await createRecord(Article, { title: 'Hello' })
+    expect(article.isNew).toBe(false)
+    expect(article.isDirty).toBe(false)
+    article.title = 'Changed'
+    ;(article.keywords as string[]).push('b')
+    expect(article.isDirty).toBe(true)
+    expect(article.changedAttributes()).toEqual({ title: ['Hello', 'Changed'], keywords: [['a'], ['a', 'b']] })
+    article.rollback()
+    expect(article.title).toBe('Hello')
+    expect(article.keywords).toEqual(['a'])
+    expect(article.isDirty).toBe(false)
+    await updateRecord(article)
+    expect(calls.length).toBe(1)
+    article.author = new Person('9')
+    expect(article.changedRelationships()).toEqual(['author'])
+    respond(204)
+    await updateRecord(article)
+    expect(calls[1].body?.data).toEqual({
+      type: 'articles',
+      id: '1',
+      attributes: {},
+      relationships: { author: { data: { type: 'people', id: '9' } } },
+    })
+    expect(article.isDirty).toBe(false)
+  })
+
+  test('relationship mutations', async () => {
+    const { createRecord, setRelationship, addToRelationship, removeFromRelationship } = useStore()
+    respond(201, { data: { type: 'articles', id: '1', attributes: { title: 'Hello' } } })
+    const article = await createRecord(Article, { title: 'Hello' })
+    const [a, b] = [new Tag('a'), new Tag('b')]
+    respond(204)
+    await setRelationship(article, 'tags', [a])
+    expect(calls[1].method).toBe('PATCH')
+    expect(calls[1].url).toBe('http://localhost/api/articles/1/relationships/tags')
+    expect(calls[1].body).toEqual({ data: [{ type: 'tags', id: 'a' }] })
+    await addToRelationship(article, 'tags', [a, b])
+    expect(calls[2].method).toBe('POST')
+    expect(article.tags.map((t) => t.id)).toEqual(['a', 'b'])
+    await removeFromRelationship(article, 'tags', [a])
+    expect(calls[3].method).toBe('DELETE')
+    expect(calls[3].body).toEqual({ data: [{ type: 'tags', id: 'a' }] })
+    expect(article.tags.map((t) => t.id)).toEqual(['b'])
+    await setRelationship(article, 'author', null)
+    expect(calls[4].body).toEqual({ data: null })
+    expect(article.isDirty).toBe(false)
+    // @ts-expect-error author is not a to-many relationship
+    await expect(addToRelationship(article, 'author', [a])).rejects.toThrow('not a to-many relationship')
+    await expect(addToRelationship(article, 'tags', [new Person('1')])).rejects.toThrow('cannot refer to type people')
+  })
+
+  test('error document is parsed into a JsonApiResponseError', async () => {
+    const { createRecord } = useStore()
+    respond(422, {
+      errors: [
+        {
+          status: '422',
+          title: 'Invalid Attribute',
+          detail: 'Title is too short',
+          source: { pointer: '/data/attributes/title' },
+        },
+        { status: '422', detail: 'Author is required', source: { pointer: '/data/relationships/author' } },
+        { status: '422', detail: 'Must not be blank', source: { pointer: '/data/attributes/sub-title' } },
+      ],
+    })
+    const error = await createRecord(Article, { title: 'H' }).catch((e) => e)
+    expect(error).toBeInstanceOf(JsonApiResponseError)
+    expect(error.status).toBe(422)
+    expect(error.message).toBe('Title is too short; Author is required; Must not be blank')
+    expect(error.errors[0].title).toBe('Invalid Attribute')
+    const fieldErrors = error.fieldErrors()
+    expect(Object.keys(fieldErrors)).toEqual(['title', 'author', 'subTitle'])
+    expect(fieldErrors.title[0].detail).toBe('Title is too short')
+  })
+})
@@ -1,5 +1,7 @@
 import { createPinia, setActivePinia } from 'pinia'
 import { beforeEach, describe, expect, test } from 'vitest'
+import type { JsonApiResource } from '../src/json-api'
+import { MockJsonApiFetcher } from '../src/mock-fetcher'
 import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
 
 setActivePinia(createPinia())
@@ -41,10 +43,33 @@ const modelDefinitions: ModelDefinition[] = [
   },
 ]
 
-const usePiniaJsonApiStore = definePiniaJsonApiStore('datakatalog', {
-  endpoint: 'https://datakatalog.miljoeportal.dk/api',
-  modelDefinitions,
-})
+const endpoint = 'https://datakatalog.miljoeportal.dk/api'
+
+// NOTE: fixtures shaped like the datakatalog api, every dataset is related to the next five
+const resources: JsonApiResource[] = [
+  ...Array.from({ length: 5 }, (_, i) => ({ type: 'tags', id: `t${i}`, attributes: { name: `Tag ${i}` } })),
+  ...Array.from({ length: 20 }, (_, i) => ({
+    type: 'wmsSources',
+    id: `w${i}`,
+    attributes: { url: 'https://wms.example.com', layer: `layer${i}` },
+  })),
+  ...Array.from({ length: 20 }, (_, i) => ({
+    type: 'datasets',
+    id: `${i + 1}`,
+    attributes: { title: `Dataset ${i + 1}`, description: `Description of dataset ${i + 1}` },
+    relationships: {
+      tags: { data: [{ type: 'tags', id: `t${i % 5}` }] },
+      wmsSource: { data: { type: 'wmsSources', id: `w${i}` } },
+      related: { data: Array.from({ length: 5 }, (_, j) => ({ type: 'datasets', id: `${((i + j + 1) % 20) + 1}` })) },
+    },
+  })),
+]
+
+const usePiniaJsonApiStore = definePiniaJsonApiStore(
+  'datakatalog',
+  { endpoint, modelDefinitions },
+  new MockJsonApiFetcher(modelDefinitions, resources, { endpoint }),
+)
 
 describe('PiniaJsonApiStore Datakatalog', () => {
   test('get all datasets', async () => {
@@ -54,7 +79,12 @@ describe('PiniaJsonApiStore Datakatalog', () => {
       page: { size: 10 },
       include: ['tags', 'wmsSource', 'related'],
     })
+    expect(datasets.length).toBe(10)
     expect(datasets[8].related[3]).toBeDefined()
+    expect(datasets[8].related[3].title).toBe('Dataset 13')
+    expect(datasets[8].wmsSource?.layer).toBe('layer8')
+    // NOTE: description is not in the sparse fieldset
+    expect(datasets[0].description).toBeUndefined()
     //console.log(datasets[8])
     //console.log(datasets[0].tags)
   })
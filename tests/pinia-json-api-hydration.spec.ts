@@ -0,0 +1,98 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { dateTransform } from '../src/transforms'
+import { calls, respond } from './fetch-stub'
+
+class Person extends Model {
+  name?: string
+}
+
+class Article extends Model {
+  title?: string
+  published?: Date
+  author: Person | null = null
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  {
+    type: 'articles',
+    ctor: Article,
+    rels: { author: { ctor: Person, type: RelationshipType.BelongsTo } },
+    transforms: { published: dateTransform },
+  },
+]
+
+const useStore = definePiniaJsonApiStore('hydration', {
+  endpoint: 'http://localhost/api',
+  modelDefinitions,
+  cache: { maxAge: 60_000 },
+})
+
+describe('PiniaJsonApiStore hydration', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('dehydrated state is restored as model instances and cached queries', async () => {
+    respond(200, {
+      data: [
+        {
+          type: 'articles',
+          id: '1',
+          attributes: { title: 'Hello', published: '2024-01-01T00:00:00.000Z' },
+          relationships: { author: { data: { type: 'people', id: '9' } } },
+        },
+      ],
+      included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+    })
+    await useStore().findAll(Article)
+    respond(200, { data: { type: 'people', id: '9', attributes: { name: 'Dan' } } })
+    await useStore().findRecord(Person, '9')
+    const state = JSON.parse(JSON.stringify(useStore().dehydrate()))
+
+    setActivePinia(createPinia())
+    const { hydrate, peekRecord, findAll, findRecord } = useStore()
+    hydrate(state)
+    const article = peekRecord(Article, '1') as Article
+    expect(article).toBeInstanceOf(Article)
+    expect(article.published).toEqual(new Date('2024-01-01T00:00:00.000Z'))
+    expect(article.author).toBeInstanceOf(Person)
+    expect(article.author).toBe(peekRecord(Person, '9'))
+    expect(article.isDirty).toBe(false)
+    const result = await findAll(Article)
+    expect(result.records).toEqual([article])
+    expect(await findRecord(Person, '9')).toBe(article.author)
+    expect(calls.length).toBe(2)
+  })
+
+  test('links and meta of relationships are restored', async () => {
+    respond(200, {
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: { title: 'Hello' },
+        relationships: { author: { links: { related: 'http://localhost/api/people/9' }, meta: { role: 'editor' } } },
+      },
+    })
+    await useStore().findRecord(Article, '1')
+    const state = JSON.parse(JSON.stringify(useStore().dehydrate()))
+
+    setActivePinia(createPinia())
+    const { hydrate, peekRecord, findRelated } = useStore()
+    hydrate(state)
+    const article = peekRecord(Article, '1') as Article
+    expect(article.relationshipMeta('author')).toEqual({ role: 'editor' })
+    respond(200, { data: { type: 'people', id: '9', attributes: { name: 'Dan' } } })
+    calls.length = 0
+    await findRelated(article, 'author')
+    expect(calls[0].url).toBe('http://localhost/api/people/9')
+    expect(article.author?.name).toBe('Dan')
+  })
+})
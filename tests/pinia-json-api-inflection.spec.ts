@@ -0,0 +1,83 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { calls, respond } from './fetch-stub'
+
+class Person extends Model {
+  firstName?: string
+}
+
+class Article extends Model {
+  createdAt?: string
+  mainAuthor: Person | null = null
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  { type: 'articles', ctor: Article, rels: { mainAuthor: { ctor: Person, type: RelationshipType.BelongsTo } } },
+]
+
+describe('PiniaJsonApiStore inflection', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('snake_case names in queries, documents and request bodies', async () => {
+    const useStore = definePiniaJsonApiStore('inflection-snake', {
+      endpoint: 'http://localhost/api',
+      modelDefinitions,
+      inflection: 'snake',
+    })
+    const { findRecord, updateRecord, setRelationship } = useStore()
+    respond(200, {
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: { created_at: '2024-01-01' },
+        relationships: { main_author: { data: { type: 'people', id: '9' } } },
+      },
+      included: [{ type: 'people', id: '9', attributes: { first_name: 'Dan' } }],
+    })
+    const article = await findRecord(Article, '1', {
+      include: ['mainAuthor'],
+      fields: { people: ['firstName'] },
+      sort: ['-createdAt'],
+    })
+    const searchParams = new URL(calls[0].url).searchParams
+    expect(searchParams.get('include')).toBe('main_author')
+    expect(searchParams.get('fields[people]')).toBe('first_name')
+    expect(searchParams.get('sort')).toBe('-created_at')
+    expect(article.createdAt).toBe('2024-01-01')
+    expect(article.mainAuthor?.firstName).toBe('Dan')
+    article.createdAt = '2024-02-01'
+    article.mainAuthor = null
+    respond(204)
+    await updateRecord(article)
+    expect(calls[1].body?.data).toEqual({
+      type: 'articles',
+      id: '1',
+      attributes: { created_at: '2024-02-01' },
+      relationships: { main_author: { data: null } },
+    })
+    await setRelationship(article, 'mainAuthor', new Person('9'))
+    expect(calls[2].url).toBe('http://localhost/api/articles/1/relationships/main_author')
+  })
+
+  test('custom inflection', async () => {
+    const useStore = definePiniaJsonApiStore('inflection-custom', {
+      endpoint: 'http://localhost/api',
+      modelDefinitions,
+      inflection: { normalize: (name: string) => name.slice(1), denormalize: (name: string) => `$${name}` },
+    })
+    const { createRecord } = useStore()
+    respond(201, { data: { type: 'people', id: '1', attributes: { $firstName: 'Dan' } } })
+    const person = await createRecord(Person, { firstName: 'Dan' })
+    expect(calls[0].body?.data).toEqual({ type: 'people', attributes: { $firstName: 'Dan' } })
+    expect(person.firstName).toBe('Dan')
+  })
+})
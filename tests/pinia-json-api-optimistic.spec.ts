@@ -0,0 +1,110 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { JsonApiResponseError } from '../src/json-api-error'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { calls, respond, stubFetch } from './fetch-stub'
+
+class Tag extends Model {
+  name?: string
+}
+
+class Article extends Model {
+  title?: string
+  tags: Tag[] = []
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'tags', ctor: Tag },
+  { type: 'articles', ctor: Article, rels: { tags: { ctor: Tag, type: RelationshipType.HasMany } } },
+]
+
+const useStore = definePiniaJsonApiStore('optimistic', { endpoint: 'http://localhost/api', modelDefinitions })
+
+const rejected = { errors: [{ status: '422', detail: 'Rejected' }] }
+
+async function loadArticle() {
+  const { findRecord } = useStore()
+  respond(200, {
+    data: {
+      type: 'articles',
+      id: '1',
+      attributes: { title: 'Hello' },
+      relationships: { tags: { data: [{ type: 'tags', id: 'a' }] } },
+    },
+    included: [{ type: 'tags', id: 'a', attributes: { name: 'a' } }],
+  })
+  return findRecord(Article, '1')
+}
+
+describe('PiniaJsonApiStore optimistic updates', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('relationship change is applied before the response and reverted on failure', async () => {
+    const { addToRelationship } = useStore()
+    const article = await loadArticle()
+    const b = new Tag('b')
+    let applied: string[] = []
+    stubFetch(() => {
+      applied = article.tags.map((t) => t.id)
+      return { status: 422, doc: rejected }
+    })
+    const error = await addToRelationship(article, 'tags', [b], { optimistic: true }).catch((e) => e)
+    expect(applied).toEqual(['a', 'b'])
+    expect(error).toBeInstanceOf(JsonApiResponseError)
+    expect(error.errors[0].detail).toBe('Rejected')
+    expect(article.tags.map((t) => t.id)).toEqual(['a'])
+    expect(article.isDirty).toBe(false)
+  })
+
+  test('update is rolled back on failure', async () => {
+    const { updateRecord } = useStore()
+    const article = await loadArticle()
+    article.title = 'Changed'
+    respond(422, rejected)
+    await expect(updateRecord(article, { optimistic: true })).rejects.toThrow('Rejected')
+    expect(article.title).toBe('Hello')
+    article.title = 'Changed'
+    await expect(updateRecord(article)).rejects.toThrow('Rejected')
+    expect(article.title).toBe('Changed')
+  })
+
+  test('delete evicts the record and relationships and restores them on failure', async () => {
+    const { deleteRecord, peekRecord } = useStore()
+    const article = await loadArticle()
+    const tag = peekRecord(Tag, 'a') as Tag
+    let evicted = false
+    stubFetch(() => {
+      evicted = !peekRecord(Tag, 'a') && article.tags.length === 0
+      return { status: 409, doc: rejected }
+    })
+    await expect(deleteRecord(tag, { optimistic: true })).rejects.toThrow('Rejected')
+    expect(evicted).toBe(true)
+    expect(peekRecord(Tag, 'a')).toBe(tag)
+    expect(article.tags).toEqual([tag])
+    expect(article.isDirty).toBe(false)
+    respond(204)
+    await deleteRecord(tag)
+    expect(peekRecord(Tag, 'a')).toBeUndefined()
+    expect(article.tags).toEqual([])
+    expect(article.isDirty).toBe(false)
+  })
+
+  test('create with client generated id is cached before the response', async () => {
+    const { createRecord, peekRecord } = useStore()
+    let cached = false
+    stubFetch(() => {
+      cached = !!peekRecord(Tag, 'x')
+      return { status: 422, doc: rejected }
+    })
+    await expect(createRecord(Tag, { id: 'x', name: 'x' }, { optimistic: true })).rejects.toThrow('Rejected')
+    expect(cached).toBe(true)
+    expect(peekRecord(Tag, 'x')).toBeUndefined()
+  })
+})
@@ -0,0 +1,65 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import type { JsonApiDocument } from '../src/json-api'
+import { Model, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { calls, stubFetch } from './fetch-stub'
+
+class Item extends Model {
+  name?: string
+}
+
+const useStore = definePiniaJsonApiStore('pagination', {
+  endpoint: 'http://localhost/api',
+  modelDefinitions: [{ type: 'items', ctor: Item }],
+})
+
+const pages: Record<string, JsonApiDocument> = {
+  'page[cursor]=a': {
+    data: [{ type: 'items', id: '1', attributes: { name: 'One' } }],
+    links: { next: 'http://localhost/api/items?page[cursor]=b' },
+    meta: { totalItems: 2, totalPages: 2 },
+  },
+  'page[cursor]=b': {
+    data: [{ type: 'items', id: '2', attributes: { name: 'Two' } }],
+    links: { prev: { href: 'http://localhost/api/items?page[cursor]=a' } },
+    meta: { totalItems: 2, totalPages: 2 },
+  },
+}
+
+describe('PiniaJsonApiStore pagination', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+    stubFetch((call) => ({ status: 200, doc: pages[decodeURIComponent(new URL(call.url).search.slice(1))] }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('follow next and prev links', async () => {
+    const { findAll } = useStore()
+    const page = await findAll(Item, { page: { cursor: 'a' } })
+    expect(calls[0].url).toBe('http://localhost/api/items?page%5Bcursor%5D=a')
+    expect(page.records[0].name).toBe('One')
+    expect(page.hasNext).toBe(true)
+    expect(page.hasPrev).toBe(false)
+    expect(page.totalItems).toBe(2)
+    expect(page.totalPages).toBe(2)
+    const next = await page.nextPage()
+    expect(calls[1].url).toBe('http://localhost/api/items?page[cursor]=b')
+    expect(next?.records[0].name).toBe('Two')
+    expect(next?.hasNext).toBe(false)
+    expect(await next?.nextPage()).toBeUndefined()
+    const prev = await next?.prevPage()
+    expect(prev?.records[0]).toBe(page.records[0])
+  })
+
+  test('iterate over all pages', async () => {
+    const { findAll } = useStore()
+    const names: (string | undefined)[] = []
+    for await (const page of await findAll(Item, { page: { cursor: 'a' } }))
+      names.push(...page.records.map((r) => r.name))
+    expect(names).toEqual(['One', 'Two'])
+  })
+})
@@ -0,0 +1,164 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { nextTick } from 'vue'
+import type { JsonApiResponseError } from '../src/json-api-error'
+import { memoryAdapter } from '../src/persistence'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { type Call, calls, respond, stubFetch } from './fetch-stub'
+
+class Person extends Model {
+  name?: string
+}
+
+class Article extends Model {
+  title?: string
+  author: Person | null = null
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  { type: 'articles', ctor: Article, rels: { author: { ctor: Person, type: RelationshipType.BelongsTo } } },
+]
+
+const persistence = memoryAdapter()
+
+const useStore = definePiniaJsonApiStore('persistence', {
+  endpoint: 'http://localhost/api',
+  modelDefinitions,
+  persistence,
+  retry: 0,
+})
+
+function offline() {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    }),
+  )
+}
+
+describe('PiniaJsonApiStore persistence', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  test('writes made offline are queued, restored and synced', async () => {
+    respond(200, { data: { type: 'articles', id: '1', attributes: { title: 'Hello' } } })
+    const store = useStore()
+    const existing = await store.findRecord(Article, '1')
+    offline()
+    const author = await store.createRecord(Person, { name: 'Dan' })
+    expect(author.id).toMatch(/^local-/)
+    const article = await store.createRecord(Article, { title: 'Draft', author })
+    article.title = 'Changed'
+    await store.saveRecord(article)
+    await store.deleteRecord(existing)
+    expect(store.pendingWrites.map((w) => w.op)).toEqual(['create', 'create', 'update', 'delete'])
+    expect(store.peekRecord(Article, '1')).toBeUndefined()
+    await store.persist()
+
+    setActivePinia(createPinia())
+    const restored = useStore()
+    await restored.restore()
+    expect(restored.pendingWrites.length).toBe(4)
+    const restoredArticle = restored.peekRecord(Article, article.id) as Article
+    expect(restoredArticle.title).toBe('Changed')
+    expect(restoredArticle.author?.id).toBe(author.id)
+
+    calls.length = 0
+    let nextId = 10
+    stubFetch((call: Call) => {
+      if (call.method === 'POST') {
+        const resource = call.body?.data as { type: string; attributes: Record<string, unknown> }
+        return { status: 201, doc: { data: { ...resource, id: String(nextId++) } } }
+      }
+      if (call.method === 'DELETE') return { status: 404, doc: { errors: [{ status: '404', detail: 'Not found' }] } }
+      return { status: 204 }
+    })
+    const result = await restored.sync()
+    expect(calls.map((c) => `${c.method} ${c.url}`)).toEqual([
+      'POST http://localhost/api/people',
+      'POST http://localhost/api/articles',
+      'PATCH http://localhost/api/articles/11',
+      'DELETE http://localhost/api/articles/1',
+    ])
+    expect(calls[0].body?.data).toEqual({ type: 'people', attributes: { name: 'Dan' } })
+    expect(calls[1].body?.data).toEqual({
+      type: 'articles',
+      attributes: { title: 'Draft' },
+      relationships: { author: { data: { type: 'people', id: '10' } } },
+    })
+    expect(result.synced).toBe(3)
+    expect(result.pending).toBe(0)
+    expect(result.conflicts.map((c) => [c.write.op, (c.error as JsonApiResponseError).status])).toEqual([
+      ['delete', 404],
+    ])
+    expect(restoredArticle.id).toBe('11')
+    expect(restored.peekRecord(Article, '11')).toBe(restoredArticle)
+    expect(restoredArticle.author).toBe(restored.peekRecord(Person, '10'))
+    expect(restored.pendingWrites).toEqual([])
+    expect((await persistence.load())?.queue).toEqual([])
+  })
+
+  test('sync stops when the network fails again', async () => {
+    const store = useStore()
+    offline()
+    await store.createRecord(Person, { id: 'p1', name: 'Dan' })
+    const result = await store.sync()
+    expect(result).toEqual({ synced: 0, conflicts: [], pending: 1 })
+  })
+
+  test('a write that keeps failing while online is reported as a conflict', async () => {
+    const store = useStore()
+    offline()
+    await store.createRecord(Person, { id: 'p1', name: 'Dan' })
+    // NOTE: failures while the browser reports being offline are not counted
+    vi.stubGlobal('navigator', { onLine: false })
+    await store.sync()
+    expect(store.pendingWrites[0].attempts).toBeUndefined()
+    vi.stubGlobal('navigator', { onLine: true })
+    for (let i = 1; i < 5; i++) expect((await store.sync()).pending).toBe(1)
+    expect(store.pendingWrites[0].attempts).toBe(4)
+    const result = await store.sync()
+    expect(result.pending).toBe(0)
+    expect(result.conflicts.map((c) => [c.write.id, c.error.message])).toEqual([['p1', 'Failed to fetch']])
+  })
+
+  test('other errors are not treated as network failures', async () => {
+    const store = useStore()
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => {
+        throw new TypeError('Invalid URL')
+      }),
+    )
+    await expect(store.createRecord(Person, { id: 'p1', name: 'Dan' })).rejects.toThrow('Invalid URL')
+    expect(store.pendingWrites).toEqual([])
+  })
+
+  test('changes to cached records are saved in batches', async () => {
+    vi.useFakeTimers()
+    const save = vi.spyOn(persistence, 'save')
+    respond(200, { data: { type: 'articles', id: '1', attributes: { title: 'Hello' } } })
+    const store = useStore()
+    const article = await store.findRecord(Article, '1')
+    await vi.runAllTimersAsync()
+    save.mockClear()
+    for (const title of ['H', 'Hi', 'Hi!']) {
+      article.title = title
+      await nextTick()
+    }
+    expect(save).not.toHaveBeenCalled()
+    await vi.runAllTimersAsync()
+    expect(save).toHaveBeenCalledOnce()
+    expect(save.mock.calls[0][0].state.data[0].attributes.title).toBe('Hi!')
+  })
+})
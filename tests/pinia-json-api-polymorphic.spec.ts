@@ -0,0 +1,127 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, expectTypeOf, test, vi } from 'vitest'
+import {
+  Model,
+  type ModelDefinition,
+  type RelationshipModel,
+  RelationshipType,
+  definePiniaJsonApiStore,
+} from '../src/pinia-json-api'
+import { calls, respond } from './fetch-stub'
+
+class Article extends Model {
+  title?: string
+}
+
+class Video extends Model {
+  url?: string
+}
+
+class Comment extends Model {
+  body?: string
+  commentable: Article | Video | null = null
+}
+
+class Feed extends Model {
+  items: (Article | Video | Comment)[] = []
+}
+
+const commentable = { ctor: [Article, Video], type: RelationshipType.BelongsTo }
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'articles', ctor: Article },
+  { type: 'videos', ctor: Video },
+  { type: 'comments', ctor: Comment, rels: { commentable } },
+  { type: 'feeds', ctor: Feed, rels: { items: { type: RelationshipType.HasMany } } },
+]
+
+const useStore = definePiniaJsonApiStore('polymorphic', { endpoint: 'http://localhost/api', modelDefinitions })
+
+describe('PiniaJsonApiStore polymorphic relationships', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('belongs to one of several types', async () => {
+    const { findAll, setRelationship } = useStore()
+    respond(200, {
+      data: [
+        {
+          type: 'comments',
+          id: '1',
+          attributes: {},
+          relationships: { commentable: { data: { type: 'articles', id: 'a' } } },
+        },
+        {
+          type: 'comments',
+          id: '2',
+          attributes: {},
+          relationships: { commentable: { data: { type: 'videos', id: 'v' } } },
+        },
+      ],
+      included: [
+        { type: 'articles', id: 'a', attributes: { title: 'Article' } },
+        { type: 'videos', id: 'v', attributes: { url: 'http://video' } },
+      ],
+    })
+    const { records } = await findAll(Comment, { include: ['commentable'] })
+    expect(records[0].commentable).toBeInstanceOf(Article)
+    expect(records[1].commentable).toBeInstanceOf(Video)
+    await expect(setRelationship(records[0], 'commentable', new Comment('3'))).rejects.toThrow(
+      'Relationship commentable cannot refer to type comments',
+    )
+    expectTypeOf<RelationshipModel<typeof commentable>>().toEqualTypeOf<Article | Video>()
+  })
+
+  test('has many of any registered type', async () => {
+    const { findRelated } = useStore()
+    respond(200, {
+      data: [
+        { type: 'articles', id: 'a', attributes: { title: 'Article' } },
+        { type: 'videos', id: 'v', attributes: { url: 'http://video' } },
+        { type: 'comments', id: 'c', attributes: { body: 'Comment' } },
+      ],
+    })
+    const feed = new Feed('1')
+    await findRelated(feed, 'items')
+    expect(calls[0].url).toBe('http://localhost/api/feeds/1/items')
+    expect(feed.items.map((i) => i.constructor)).toEqual([Article, Video, Comment])
+  })
+  test('records of different types with the same id are told apart', async () => {
+    const { findRecord, addToRelationship, removeFromRelationship } = useStore()
+    respond(200, {
+      data: {
+        type: 'comments',
+        id: '1',
+        attributes: {},
+        relationships: { commentable: { data: { type: 'articles', id: '1' } } },
+      },
+      included: [{ type: 'articles', id: '1', attributes: { title: 'Article' } }],
+    })
+    const comment = await findRecord(Comment, '1', { include: ['commentable'] })
+    respond(200, { data: { type: 'videos', id: '1', attributes: { url: 'http://video' } } })
+    const video = await findRecord(Video, '1')
+    respond(200, {
+      data: {
+        type: 'feeds',
+        id: '1',
+        attributes: {},
+        relationships: { items: { data: [{ type: 'articles', id: '1' }] } },
+      },
+    })
+    const feed = await findRecord(Feed, '1')
+    comment.commentable = video
+    expect(comment.isDirty).toBe(true)
+    expect(comment.changedRelationships()).toEqual(['commentable'])
+    respond(204)
+    await addToRelationship(feed, 'items', [video])
+    expect(feed.items.map((i) => i.constructor)).toEqual([Article, Video])
+    await removeFromRelationship(feed, 'items', [video])
+    expect(feed.items.map((i) => i.constructor)).toEqual([Article])
+  })
+})
@@ -0,0 +1,76 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { Model, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { bracketFilterStrategy } from '../src/query'
+import { calls, respond } from './fetch-stub'
+
+class Person extends Model {
+  name?: string
+  firstName?: string
+}
+
+class Article extends Model {
+  title?: string
+  createdAt?: string
+  published?: boolean
+  author: Person | null = null
+}
+
+const modelDefinitions = [{ type: 'articles', ctor: Article }]
+
+function searchParams() {
+  return [...new URL(calls[0].url).searchParams.entries()]
+}
+
+describe('PiniaJsonApiStore filter and sort', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+    respond(200, { data: [] })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('structured filter and sort', async () => {
+    const useStore = definePiniaJsonApiStore('query', { endpoint: 'http://localhost/api', modelDefinitions })
+    const { findAll } = useStore()
+    await findAll(Article, {
+      filter: { title: 'JSON:API', author: { name: ['Dan', 'Bob'] }, published: true },
+      sort: ['-createdAt', { field: 'title', direction: 'asc' }],
+    })
+    expect(searchParams()).toEqual([
+      ['filter[title]', 'JSON:API'],
+      ['filter[author.name]', 'Dan,Bob'],
+      ['filter[published]', 'true'],
+      ['sort', '-createdAt,title'],
+    ])
+  })
+
+  test('filter strategy and kebab-case conversion', async () => {
+    const useStore = definePiniaJsonApiStore('query-kebab', {
+      endpoint: 'http://localhost/api',
+      modelDefinitions,
+      kebabCase: true,
+      filterStrategy: bracketFilterStrategy,
+    })
+    const { findAll } = useStore()
+    await findAll(Article, {
+      filter: { createdAt: { gt: '2024-01-01' }, 'author.firstName': 'Dan' },
+      sort: [{ field: 'createdAt', direction: 'desc' }, 'author.firstName'],
+    })
+    expect(searchParams()).toEqual([
+      ['filter[created-at][gt]', '2024-01-01'],
+      ['filter[author.first-name]', 'Dan'],
+      ['sort', '-created-at,author.first-name'],
+    ])
+  })
+
+  test('raw filter string', async () => {
+    const useStore = definePiniaJsonApiStore('query-raw', { endpoint: 'http://localhost/api', modelDefinitions })
+    const { findAll } = useStore()
+    await findAll(Article, { filter: "equals(title,'x')" })
+    expect(searchParams()).toEqual([['filter', "equals(title,'x')"]])
+  })
+})
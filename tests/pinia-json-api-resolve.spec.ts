@@ -0,0 +1,202 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { computed } from 'vue'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { calls, respond } from './fetch-stub'
+
+class Person extends Model {
+  name?: string
+}
+
+class Comment extends Model {
+  body?: string
+  author: Person | null = null
+}
+
+class Article extends Model {
+  title?: string
+  author: Person | null = null
+  comments: Comment[] = []
+  related: Article[] = []
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  { type: 'comments', ctor: Comment, rels: { author: { ctor: Person, type: RelationshipType.BelongsTo } } },
+  {
+    type: 'articles',
+    ctor: Article,
+    rels: {
+      author: { ctor: Person, type: RelationshipType.BelongsTo },
+      comments: { ctor: Comment, type: RelationshipType.HasMany },
+      related: { ctor: Article, type: RelationshipType.HasMany },
+    },
+  },
+]
+
+const useStore = definePiniaJsonApiStore('resolve', { endpoint: 'http://localhost/api', modelDefinitions })
+
+describe('PiniaJsonApiStore resource resolution', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('resources with colliding ids across types', async () => {
+    const { findRecord, peekRecord } = useStore()
+    respond(200, {
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: { title: 'Article' },
+        relationships: {
+          author: { data: { type: 'people', id: '1' } },
+          comments: { data: [{ type: 'comments', id: '1' }] },
+        },
+      },
+      included: [
+        { type: 'people', id: '1', attributes: { name: 'Dan' } },
+        {
+          type: 'comments',
+          id: '1',
+          attributes: { body: 'First!' },
+          relationships: { author: { data: { type: 'people', id: '1' } } },
+        },
+      ],
+    })
+    const article = await findRecord(Article, '1', { include: ['author', 'comments.author'] })
+    expect(article.title).toBe('Article')
+    expect(article.author?.name).toBe('Dan')
+    expect(article.comments[0].body).toBe('First!')
+    expect(article.comments[0].author).toBe(article.author)
+    expect(peekRecord(Person, '1')?.name).toBe('Dan')
+    expect(peekRecord(Comment, '1')?.body).toBe('First!')
+  })
+
+  test('self references and cycles between primary and included resources', async () => {
+    const { findAll } = useStore()
+    respond(200, {
+      data: [
+        {
+          type: 'articles',
+          id: '1',
+          attributes: { title: 'One' },
+          relationships: {
+            related: {
+              data: [
+                { type: 'articles', id: '2' },
+                { type: 'articles', id: '1' },
+              ],
+            },
+          },
+        },
+        {
+          type: 'articles',
+          id: '2',
+          attributes: { title: 'Two' },
+          relationships: { related: { data: [{ type: 'articles', id: '3' }] } },
+        },
+      ],
+      included: [
+        {
+          type: 'articles',
+          id: '3',
+          attributes: { title: 'Three' },
+          relationships: { related: { data: [{ type: 'articles', id: '1' }] } },
+        },
+      ],
+    })
+    const { records } = await findAll(Article, { include: ['related'] })
+    const [one, two] = records
+    expect(one.related.map((a) => a.title)).toEqual(['Two', 'One'])
+    expect(one.related[1]).toBe(one)
+    expect(two.related[0].related[0]).toBe(one)
+  })
+
+  test('relationships that are not included resolve to stub records', async () => {
+    const { findRecord, peekAll } = useStore()
+    respond(200, {
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: {},
+        relationships: { author: { data: { type: 'people', id: '5' } }, comments: { data: [] } },
+      },
+    })
+    const article = await findRecord(Article, '1')
+    expect(article.author?.id).toBe('5')
+    expect(article.author?.isLoaded).toBe(false)
+    expect(peekAll(Person)).toEqual([])
+    expect(article.comments).toEqual([])
+    expect(article.isDirty).toBe(false)
+    const authorLoaded = computed(() => article.author?.isLoaded)
+    const people = computed(() => peekAll(Person).length)
+    expect([authorLoaded.value, people.value]).toEqual([false, 0])
+    respond(200, { data: { type: 'people', id: '5', attributes: { name: 'Dan' } } })
+    const author = await findRecord(Person, '5')
+    expect(author).toBe(article.author)
+    expect(author.isLoaded).toBe(true)
+    expect(peekAll(Person)).toEqual([author])
+    expect([authorLoaded.value, people.value]).toEqual([true, 1])
+  })
+  test('related link and meta of relationships are kept and used to find related records', async () => {
+    const { findRecord, findRelated } = useStore()
+    respond(200, {
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: {},
+        relationships: {
+          comments: { links: { related: 'http://localhost/api/comments?filter[article]=1' }, meta: { count: 1 } },
+        },
+      },
+    })
+    const article = await findRecord(Article, '1')
+    expect(article.comments).toEqual([])
+    expect(article.relationshipMeta('comments')).toEqual({ count: 1 })
+    const count = computed(() => article.relationshipMeta('comments')?.count)
+    expect(count.value).toBe(1)
+    respond(200, {
+      data: [
+        {
+          type: 'comments',
+          id: '2',
+          attributes: { body: 'First!' },
+          relationships: { author: { data: { type: 'people', id: '9' } } },
+        },
+      ],
+      included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+    })
+    calls.length = 0
+    await findRelated(article, 'comments', { include: ['author'] })
+    expect(calls[0].url).toBe('http://localhost/api/comments?filter%5Barticle%5D=1&include=author')
+    expect(article.comments[0].author?.name).toBe('Dan')
+    expect(article.comments[0].author?.isLoaded).toBe(true)
+    respond(200, {
+      data: { type: 'articles', id: '1', attributes: {}, relationships: { comments: { meta: { count: 2 } } } },
+    })
+    await findRecord(Article, '1')
+    expect(count.value).toBe(2)
+  })
+
+  test('related links relative to the endpoint', async () => {
+    const { findRecord, findRelated } = useStore()
+    respond(200, {
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: {},
+        relationships: { author: { links: { related: '/api/articles/1/author' } } },
+      },
+    })
+    const article = await findRecord(Article, '1')
+    respond(200, { data: { type: 'people', id: '9', attributes: { name: 'Dan' } } })
+    calls.length = 0
+    await findRelated(article, 'author')
+    expect(calls[0].url).toBe('http://localhost/api/articles/1/author')
+    expect(article.author?.name).toBe('Dan')
+  })
+})
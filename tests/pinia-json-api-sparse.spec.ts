@@ -0,0 +1,124 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, test } from 'vitest'
+import { MockJsonApiFetcher } from '../src/mock-fetcher'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+
+class Person extends Model {
+  name?: string
+}
+
+class Dataset extends Model {
+  title?: string
+  description?: string
+  owner: Person | null = null
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  { type: 'datasets', ctor: Dataset, rels: { owner: { ctor: Person, type: RelationshipType.BelongsTo } } },
+]
+
+function createFetcher() {
+  return new MockJsonApiFetcher(modelDefinitions, [
+    { type: 'people', id: '1', attributes: { name: 'Dan' } },
+    {
+      type: 'datasets',
+      id: '1',
+      attributes: { title: 'Roads', description: 'All roads' },
+      relationships: { owner: { data: { type: 'people', id: '1' } } },
+    },
+  ])
+}
+
+describe('PiniaJsonApiStore sparse fieldsets', () => {
+  let fetcher: MockJsonApiFetcher
+  let useStore: ReturnType<typeof definePiniaJsonApiStore>
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    fetcher = createFetcher()
+    useStore = definePiniaJsonApiStore('sparse', { endpoint: 'http://localhost/api', modelDefinitions }, fetcher)
+  })
+
+  test('records loaded with a sparse fieldset are completed in place', async () => {
+    const { findAll, findRecord, completeRecord } = useStore()
+    const { records } = await findAll(Dataset, { fields: { datasets: ['title'] } })
+    const [dataset] = records
+    expect(dataset.isComplete).toBe(false)
+    expect(dataset.isFieldLoaded('title')).toBe(true)
+    expect(dataset.isFieldLoaded('description')).toBe(false)
+    expect(dataset.description).toBeUndefined()
+    await completeRecord(dataset, ['description'])
+    expect(dataset.description).toBe('All roads')
+    expect(dataset.isFieldLoaded('description')).toBe(true)
+    expect(dataset.isFieldLoaded('owner')).toBe(false)
+    expect(dataset.isDirty).toBe(false)
+    await completeRecord(dataset)
+    expect(dataset.isComplete).toBe(true)
+    expect(dataset.owner?.isLoaded).toBe(false)
+    expect(await findRecord(Dataset, '1', { fields: { datasets: ['title'] } })).toBe(dataset)
+    // NOTE: a complete record stays complete when loaded with a sparse fieldset again
+    expect(dataset.isComplete).toBe(true)
+  })
+
+  test('no request is made for fields that are loaded', async () => {
+    const { findRecord, completeRecord } = useStore()
+    const dataset = await findRecord(Dataset, '1', { fields: { datasets: ['title', 'description'] } })
+    // NOTE: requests would fail as the resource is gone
+    fetcher.resources.get('datasets')?.clear()
+    expect(await completeRecord(dataset, ['title', 'description'])).toBe(dataset)
+    await expect(completeRecord(dataset, ['owner'])).rejects.toThrow('not found')
+  })
+
+  test('stub records are completed', async () => {
+    const { findRecord, completeRecord, peekRecord } = useStore()
+    await findRecord(Dataset, '1')
+    const owner = peekRecord(Person, '1') as Person
+    expect(owner.isFieldLoaded('id')).toBe(true)
+    expect(owner.isFieldLoaded('name')).toBe(false)
+    await completeRecord(owner, ['name'])
+    expect(owner.name).toBe('Dan')
+    expect(owner.isLoaded).toBe(true)
+    expect(owner.isComplete).toBe(false)
+  })
+
+  test('unsaved changes to fields left out stay dirty', async () => {
+    const { findRecord, findAll, completeRecord } = useStore()
+    const dataset = await findRecord(Dataset, '1')
+    dataset.description = 'Edited'
+    await findAll(Dataset, { fields: { datasets: ['title'] } })
+    expect(dataset.description).toBe('Edited')
+    expect(dataset.isDirty).toBe(true)
+    expect(dataset.changedAttributes()).toEqual({ description: ['All roads', 'Edited'] })
+    await completeRecord(dataset, ['title'])
+    expect(dataset.isDirty).toBe(true)
+  })
+
+  test('loaded fields are kept when hydrating', async () => {
+    await useStore().findAll(Dataset, { fields: { datasets: ['title'] } })
+    const state = JSON.parse(JSON.stringify(useStore().dehydrate()))
+    setActivePinia(createPinia())
+    const { hydrate, peekRecord } = useStore()
+    hydrate(state)
+    const dataset = peekRecord(Dataset, '1') as Dataset
+    expect(dataset.isComplete).toBe(false)
+    expect(dataset.isFieldLoaded('title')).toBe(true)
+    expect(dataset.isFieldLoaded('description')).toBe(false)
+  })
+
+  test('loaded fields are kept when hydrating cached queries', async () => {
+    const useCachedStore = definePiniaJsonApiStore(
+      'sparse-cached',
+      { endpoint: 'http://localhost/api', modelDefinitions, cache: { maxAge: 60000 } },
+      fetcher,
+    )
+    await useCachedStore().findAll(Dataset, { fields: { datasets: ['title'] } })
+    const state = JSON.parse(JSON.stringify(useCachedStore().dehydrate()))
+    setActivePinia(createPinia())
+    const { hydrate, peekRecord } = useCachedStore()
+    hydrate(state)
+    const dataset = peekRecord(Dataset, '1') as Dataset
+    expect(dataset.isComplete).toBe(false)
+    expect(dataset.isFieldLoaded('description')).toBe(false)
+  })
+})
@@ -0,0 +1,92 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { Model, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import {
+  type Transform,
+  booleanTransform,
+  dateTransform,
+  enumTransform,
+  jsonTransform,
+  numberTransform,
+} from '../src/transforms'
+import { calls, respond } from './fetch-stub'
+
+class Order extends Model {
+  createdAt?: Date
+  total?: number
+  paid?: boolean
+  status?: 'open' | 'closed'
+  address?: { street: string }
+  code?: string
+}
+
+const upperCase: Transform<string, string> = {
+  deserialize: (value) => value.toUpperCase(),
+  serialize: (value) => value.toLowerCase(),
+}
+
+const useStore = definePiniaJsonApiStore('transforms', {
+  endpoint: 'http://localhost/api',
+  modelDefinitions: [
+    {
+      type: 'orders',
+      ctor: Order,
+      transforms: {
+        createdAt: dateTransform,
+        total: numberTransform,
+        paid: booleanTransform,
+        status: enumTransform(['open', 'closed']),
+        address: jsonTransform(),
+        code: upperCase,
+      },
+    },
+  ],
+})
+
+const attributes = {
+  createdAt: '2024-05-01T10:00:00.000Z',
+  total: '12.50',
+  paid: 'true',
+  status: 'open',
+  address: '{"street":"Main"}',
+  code: 'abc',
+}
+
+describe('PiniaJsonApiStore attribute transforms', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    calls.length = 0
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('deserialize and serialize attributes', async () => {
+    const { findRecord, updateRecord } = useStore()
+    respond(200, { data: { type: 'orders', id: '1', attributes } })
+    const order = await findRecord(Order, '1')
+    expect(order.createdAt).toEqual(new Date('2024-05-01T10:00:00.000Z'))
+    expect(order.total).toBe(12.5)
+    expect(order.paid).toBe(true)
+    expect(order.status).toBe('open')
+    expect(order.address).toEqual({ street: 'Main' })
+    expect(order.code).toBe('ABC')
+    expect(order.isDirty).toBe(false)
+    order.createdAt = new Date('2024-06-01T10:00:00.000Z')
+    order.code = 'XYZ'
+    respond(204)
+    await updateRecord(order)
+    expect(calls[1].body?.data).toEqual({
+      type: 'orders',
+      id: '1',
+      attributes: { createdAt: '2024-06-01T10:00:00.000Z', code: 'xyz' },
+    })
+  })
+
+  test('invalid enum value', async () => {
+    const { findRecord } = useStore()
+    respond(200, { data: { type: 'orders', id: '1', attributes: { ...attributes, status: 'unknown' } } })
+    await expect(findRecord(Order, '1')).rejects.toThrow('Invalid value unknown, expected one of open, closed')
+  })
+})
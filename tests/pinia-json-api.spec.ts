@@ -36,4 +36,17 @@ describe('PiniaJsonApiStore', () => {
     //await findRelated(article, 'author')
     expect(article.author?.firstName).toBe('Dan')
   })
+
+  test('records are cached by identity', async () => {
+    const { findAll, findRecord, peekRecord, peekAll } = useArticlesStore()
+    const { records: articles } = await findAll(Article, {
+      include: ['comments', 'author'],
+    })
+    const article = await findRecord(Article, '1')
+    expect(article).toBe(articles[0])
+    expect(peekRecord(Article, '1')).toBe(article)
+    expect(peekRecord(Person, '9')).toBe(article.author)
+    expect(peekRecord(Article, '2')).toBeUndefined()
+    expect(peekAll(Article)).toEqual([article])
+  })
 })
@@ -0,0 +1,100 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import { MockJsonApiFetcher } from '../src/mock-fetcher'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { type ChangeEvent, connectStream } from '../src/realtime'
+
+class Person extends Model {
+  name?: string
+}
+
+class Article extends Model {
+  title?: string
+  author: Person | null = null
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  { type: 'articles', ctor: Article, rels: { author: { ctor: Person, type: RelationshipType.BelongsTo } } },
+]
+
+/**
+ * Stand-in for a server pushing Server-Sent Events
+ */
+class StubEventSource extends EventTarget {
+  closed = false
+  close() {
+    this.closed = true
+  }
+  push(data: unknown, event = 'message') {
+    this.dispatchEvent(new MessageEvent(event, { data: typeof data === 'string' ? data : JSON.stringify(data) }))
+  }
+}
+
+const useStore = definePiniaJsonApiStore(
+  'realtime',
+  { endpoint: 'http://localhost/api', modelDefinitions },
+  new MockJsonApiFetcher(modelDefinitions, [
+    { type: 'people', id: '1', attributes: { name: 'Dan' } },
+    {
+      type: 'articles',
+      id: '1',
+      attributes: { title: 'Hello' },
+      relationships: { author: { data: { type: 'people', id: '1' } } },
+    },
+  ]),
+)
+
+describe('PiniaJsonApiStore realtime updates', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  test('ingest documents and delete notices', async () => {
+    const { findRecord, ingest, onChange, peekRecord } = useStore()
+    const article = await findRecord(Article, '1', { include: ['author'] })
+    const events: ChangeEvent[] = []
+    const stop = onChange((event) => events.push(event))
+    ingest({
+      data: {
+        type: 'articles',
+        id: '1',
+        attributes: { title: 'Changed' },
+        relationships: { author: { data: { type: 'people', id: '2' } } },
+      },
+      included: [{ type: 'people', id: '2', attributes: { name: 'Bob' } }],
+    })
+    expect(article.title).toBe('Changed')
+    expect(article.author?.name).toBe('Bob')
+    expect(article.isDirty).toBe(false)
+    expect(events.map(({ kind, type, record }) => [kind, type, record.id])).toEqual([
+      ['updated', 'articles', '1'],
+      ['created', 'people', '2'],
+    ])
+    ingest({ deleted: { type: 'people', id: '2' } })
+    expect(peekRecord(Person, '2')).toBeUndefined()
+    expect(article.author).toBeNull()
+    expect(events[2].kind).toBe('deleted')
+    stop()
+    ingest({ deleted: { type: 'articles', id: '1' } })
+    expect(events.length).toBe(3)
+  })
+
+  test('connect an event stream', async () => {
+    const { findAll, ingest, peekRecord } = useStore()
+    await findAll(Article)
+    const source = new StubEventSource()
+    const onError = vi.fn()
+    const disconnect = connectStream({ ingest }, source, { events: ['message', 'created'], onError })
+    source.push({ data: { type: 'articles', id: '2', attributes: { title: 'New' } } }, 'created')
+    expect(peekRecord(Article, '2')?.title).toBe('New')
+    source.push({ deleted: { type: 'articles', id: '2' } })
+    expect(peekRecord(Article, '2')).toBeUndefined()
+    source.push('not json')
+    expect(onError).toHaveBeenCalledOnce()
+    disconnect()
+    expect(source.closed).toBe(true)
+    source.push({ data: { type: 'articles', id: '3', attributes: { title: 'Ignored' } } })
+    expect(peekRecord(Article, '3')).toBeUndefined()
+  })
+})
@@ -0,0 +1,153 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { MockJsonApiFetcher } from '../src/mock-fetcher'
+import { Model, type ModelDefinition, RelationshipType, definePiniaJsonApiStore } from '../src/pinia-json-api'
+import { JsonApiValidationError, validateDocument } from '../src/validation'
+
+class Person extends Model {
+  name?: string
+}
+
+class Article extends Model {
+  title?: string
+  wordCount?: number
+  author: Person | null = null
+}
+
+const modelDefinitions: ModelDefinition[] = [
+  { type: 'people', ctor: Person },
+  {
+    type: 'articles',
+    ctor: Article,
+    rels: { author: { ctor: Person, type: RelationshipType.BelongsTo } },
+    schema: { title: 'string', wordCount: 'number' },
+  },
+]
+
+describe('validateDocument', () => {
+  test('valid documents have no issues', () => {
+    expect(
+      validateDocument({
+        jsonapi: { version: '1.1', ext: ['https://jsonapi.org/ext/atomic'] },
+        data: [
+          {
+            type: 'articles',
+            id: '1',
+            attributes: { title: 'Hello' },
+            relationships: { author: { data: { type: 'people', id: '9' }, links: { related: '/articles/1/author' } } },
+          },
+        ],
+        included: [{ type: 'people', id: '9', attributes: { name: 'Dan' } }],
+        links: { self: '/articles', next: null },
+        meta: { totalItems: 1 },
+      }),
+    ).toEqual([])
+    expect(validateDocument({ 'atomic:results': [{}] })).toEqual([])
+  })
+
+  test('structural issues', () => {
+    expect(validateDocument([])).toEqual([{ pointer: '', message: 'document must be an object' }])
+    expect(validateDocument({ links: {} }).map((i) => i.message)).toEqual(['document must have data, errors or meta'])
+    expect(validateDocument({ data: null, errors: [], foo: 1 })).toEqual([
+      { pointer: '/foo', message: 'unexpected top-level member foo' },
+      { pointer: '/errors', message: 'document must not have both data and errors' },
+    ])
+    expect(validateDocument({ meta: {}, included: [], jsonapi: { version: 1 } })).toEqual([
+      { pointer: '/included', message: 'document without data must not have included' },
+      { pointer: '/jsonapi/version', message: 'must be a string' },
+    ])
+    expect(
+      validateDocument({
+        data: {
+          type: 'articles',
+          id: 1,
+          lid: 2,
+          attributes: { id: 'x', 'bad-': 1, author: 'x' },
+          relationships: { author: { data: { type: 'people' } }, tags: {} },
+        },
+        included: [{ type: 'people', id: '9', attributes: {} }, { type: 'people', id: '9' }, 'x'],
+      }),
+    ).toEqual([
+      { pointer: '/data/id', message: 'must be a string' },
+      { pointer: '/data/lid', message: 'must be a string' },
+      { pointer: '/data/attributes/id', message: 'field must not be named id' },
+      { pointer: '/data/attributes/bad-', message: 'invalid member name bad-' },
+      { pointer: '/data/relationships/author', message: 'field author must not be both attribute and relationship' },
+      { pointer: '/data/relationships/author/data', message: 'resource identifier must have id or lid' },
+      { pointer: '/data/relationships/tags', message: 'relationship must have data, links or meta' },
+      { pointer: '/included/1', message: 'duplicate resource people 9' },
+      { pointer: '/included/2', message: 'resource must be an object' },
+    ])
+  })
+
+  test('types and attribute schemas', () => {
+    const issues = validateDocument(
+      {
+        data: [
+          { type: 'articles', id: '1', attributes: { title: 1, tags: 'x' }, relationships: { editor: { data: null } } },
+          { type: 'comments', id: '2', attributes: {} },
+        ],
+      },
+      {
+        types: {
+          articles: {
+            attributes: { title: 'string', tags: 'array', slug: (v) => typeof v === 'string' },
+            relationships: [],
+          },
+        },
+      },
+    )
+    expect(issues).toEqual([
+      { pointer: '/data/0/relationships/editor', message: 'unexpected relationship editor of type articles' },
+      { pointer: '/data/0/attributes/title', message: 'expected title to be a string' },
+      { pointer: '/data/0/attributes/tags', message: 'expected tags to be an array' },
+      { pointer: '/data/1/type', message: 'unexpected type comments' },
+    ])
+  })
+})
+
+describe('PiniaJsonApiStore validation', () => {
+  let fetcher: MockJsonApiFetcher
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    fetcher = new MockJsonApiFetcher(modelDefinitions, [
+      { type: 'articles', id: '1', attributes: { title: 'Hello', wordCount: 'many' } },
+    ])
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test('strict mode rejects invalid documents', async () => {
+    const useStore = definePiniaJsonApiStore(
+      'strict',
+      { endpoint: 'http://localhost/api', modelDefinitions, validation: 'strict' },
+      fetcher,
+    )
+    const { findRecord, ingest, peekRecord } = useStore()
+    const error = await findRecord(Article, '1').catch((e) => e)
+    expect(error).toBeInstanceOf(JsonApiValidationError)
+    expect(error.issues).toEqual([
+      { pointer: '/data/attributes/wordCount', message: 'expected wordCount to be a number' },
+    ])
+    expect(peekRecord(Article, '1')).toBeUndefined()
+    expect(() => ingest({ data: { type: 'comments', id: '1', attributes: {} } })).toThrow('unexpected type comments')
+  })
+
+  test('lenient mode warns', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const useStore = definePiniaJsonApiStore(
+      'lenient',
+      { endpoint: 'http://localhost/api', modelDefinitions, validation: 'lenient' },
+      fetcher,
+    )
+    const { findRecord } = useStore()
+    const article = await findRecord(Article, '1')
+    expect(article.wordCount).toBe('many')
+    expect(warn).toHaveBeenCalledWith(
+      'Invalid JSON:API document: /data/attributes/wordCount expected wordCount to be a number',
+    )
+  })
+})